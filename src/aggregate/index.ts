@@ -0,0 +1,61 @@
+/**
+ * The numeric aggregation shared by `Arr` and the opt-in array extensions.
+ * Internal: this module is not part of the package exports.
+ */
+
+/**
+ * Type guard to check if a value is a number
+ */
+function isNumber(value: unknown): value is number {
+	return typeof value === "number";
+}
+
+/**
+ * Type guard to check if a value is an object with a specific key
+ */
+function isObjectWithKey<K extends string>(
+	value: unknown,
+	key: K,
+): value is Record<K, number> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		key in value &&
+		typeof (value as Record<K, unknown>)[key] === "number"
+	);
+}
+
+/**
+ * Combines the numbers of an array, or the numeric `key` of each of its objects.
+ * `name` is used in error messages, e.g. `Arr.sum()`.
+ * @throws {TypeError} If an element is not a number, or lacks a numeric `key`.
+ */
+export function aggregate<T>(
+	name: string,
+	items: readonly T[],
+	key: PropertyKey | undefined,
+	initial: number,
+	combine: (acc: number, value: number) => number,
+): number {
+	// If no key is provided, assume array of numbers
+	if (key === undefined) {
+		return items.reduce((acc: number, item: T, index: number) => {
+			if (!isNumber(item)) {
+				throw new TypeError(
+					`${name} requires all elements to be numbers when no key is provided. Got ${typeof item} at index ${index}`,
+				);
+			}
+			return combine(acc, item);
+		}, initial);
+	}
+
+	// If key is provided, extract values from objects
+	return items.reduce((acc: number, item: T, index: number) => {
+		if (!isObjectWithKey(item, key as string)) {
+			throw new TypeError(
+				`${name} requires all elements to have a numeric property '${String(key)}'. Element at index ${index} is invalid.`,
+			);
+		}
+		return combine(acc, item[key as string]);
+	}, initial);
+}
@@ -0,0 +1,109 @@
+/**
+ * Opt-in `sum` and `product` methods on `Array.prototype`.
+ * Importing this module only declares the method types; call `installArrayExtensions`
+ * to add the methods, and `uninstallArrayExtensions` to remove them again.
+ */
+import { aggregate } from "../aggregate";
+
+declare global {
+	interface Array<T> {
+		/**
+		 * Calculates the sum of all elements in the array.
+		 * Only available after calling `installArrayExtensions`.
+		 * - For arrays of numbers: returns the sum of all numbers
+		 * - For arrays of objects: requires a key parameter to specify which property to sum
+		 * @param key Optional key for object arrays to specify which property to sum
+		 * @returns The sum of the elements
+		 * @throws Error if the array contains non-numeric values when no key is provided
+		 * @throws Error if the specified key does not exist or is not a number
+		 */
+		sum(this: number[]): number;
+		sum<K extends keyof T>(
+			this: Array<T>,
+			key: T[K] extends number ? K : never,
+		): number;
+
+		/**
+		 * Calculates the product of all elements in the array.
+		 * Only available after calling `installArrayExtensions`.
+		 * - For arrays of numbers: returns the product of all numbers
+		 * - For arrays of objects: requires a key parameter to specify which property to multiply
+		 * @param key Optional key for object arrays to specify which property to multiply
+		 * @returns The product of the elements
+		 * @throws Error if the array contains non-numeric values when no key is provided
+		 * @throws Error if the specified key does not exist or is not a number
+		 */
+		product(this: number[]): number;
+		product<K extends keyof T>(
+			this: Array<T>,
+			key: T[K] extends number ? K : never,
+		): number;
+	}
+}
+
+/**
+ * The methods added to `Array.prototype`.
+ */
+const extensions = {
+	sum<T>(this: T[], key?: keyof T): number {
+		return aggregate("Array.sum()", this, key, 0, (acc, value) => acc + value);
+	},
+	product<T>(this: T[], key?: keyof T): number {
+		return aggregate(
+			"Array.product()",
+			this,
+			key,
+			1,
+			(acc, value) => acc * value,
+		);
+	},
+};
+
+/**
+ * The properties that were on `Array.prototype` before installing, restored when uninstalling.
+ * Undefined while the extensions are not installed.
+ */
+let previous: Map<string, PropertyDescriptor | undefined> | undefined;
+
+/**
+ * Adds `sum` and `product` to `Array.prototype`, as non-enumerable methods.
+ * Calling it again while installed does nothing.
+ *
+ * ```typescript
+ * installArrayExtensions();
+ * [1, 2, 3].sum(); // 6
+ * ```
+ */
+export function installArrayExtensions(): void {
+	if (previous) {
+		return;
+	}
+	previous = new Map();
+	for (const [name, method] of Object.entries(extensions)) {
+		previous.set(name, Object.getOwnPropertyDescriptor(Array.prototype, name));
+		Object.defineProperty(Array.prototype, name, {
+			value: method,
+			writable: true,
+			configurable: true,
+			enumerable: false,
+		});
+	}
+}
+
+/**
+ * Removes the methods added by `installArrayExtensions`, restoring any properties
+ * they replaced. Does nothing if the extensions are not installed.
+ */
+export function uninstallArrayExtensions(): void {
+	if (!previous) {
+		return;
+	}
+	for (const [name, descriptor] of previous) {
+		if (descriptor) {
+			Object.defineProperty(Array.prototype, name, descriptor);
+		} else {
+			delete (Array.prototype as unknown as Record<string, unknown>)[name];
+		}
+	}
+	previous = undefined;
+}
@@ -1,97 +1,54 @@
 /**
- * Array prototype extensions for sum and product operations.
+ * Pure helpers for sum and product operations on arrays.
  * Supports both arrays of numbers and arrays of objects with a specified key.
+ * Nothing here touches `Array.prototype`; see `installArrayExtensions` for the opt-in methods.
  */
+import { aggregate } from "../aggregate";
 
 /**
- * Type guard to check if a value is a number
+ * Calculates the sum of all elements in an array.
+ * - For arrays of numbers: returns the sum of all numbers
+ * - For arrays of objects: requires a key parameter to specify which property to sum
+ * @param items The array to sum.
+ * @param key Optional key for object arrays to specify which property to sum
+ * @returns The sum of the elements, or 0 for an empty array.
+ * @throws {TypeError} If the array contains non-numeric values when no key is provided
+ * @throws {TypeError} If the specified key does not exist or is not a number
  */
-function isNumber(value: unknown): value is number {
-	return typeof value === "number";
+function sum(items: readonly number[]): number;
+function sum<T, K extends keyof T>(
+	items: readonly T[],
+	key: T[K] extends number ? K : never,
+): number;
+function sum<T>(items: readonly T[], key?: keyof T): number {
+	return aggregate("Arr.sum()", items, key, 0, (acc, value) => acc + value);
 }
 
 /**
- * Type guard to check if a value is an object with a specific key
+ * Calculates the product of all elements in an array.
+ * - For arrays of numbers: returns the product of all numbers
+ * - For arrays of objects: requires a key parameter to specify which property to multiply
+ * @param items The array to multiply.
+ * @param key Optional key for object arrays to specify which property to multiply
+ * @returns The product of the elements, or 1 for an empty array.
+ * @throws {TypeError} If the array contains non-numeric values when no key is provided
+ * @throws {TypeError} If the specified key does not exist or is not a number
  */
-function isObjectWithKey<K extends string>(
-	value: unknown,
-	key: K,
-): value is Record<K, number> {
-	return (
-		typeof value === "object" &&
-		value !== null &&
-		key in value &&
-		typeof (value as Record<K, unknown>)[key] === "number"
-	);
+function product(items: readonly number[]): number;
+function product<T, K extends keyof T>(
+	items: readonly T[],
+	key: T[K] extends number ? K : never,
+): number;
+function product<T>(items: readonly T[], key?: keyof T): number {
+	return aggregate("Arr.product()", items, key, 1, (acc, value) => acc * value);
 }
 
 /**
- * Implementation of Array.prototype.sum
+ * Array helpers as plain functions.
+ *
+ * ```typescript
+ * Arr.sum([1, 2, 3]); // 6
+ * Arr.product([{ n: 2 }, { n: 3 }], "n"); // 6
+ * ```
  */
-Array.prototype.sum = function <T, K extends keyof T>(
-	this: Array<T>,
-	key?: K,
-): number {
-	if (this.length === 0) {
-		return 0;
-	}
-
-	// If no key is provided, assume array of numbers
-	if (key === undefined) {
-		return this.reduce((acc: number, item: T) => {
-			if (!isNumber(item)) {
-				throw new TypeError(
-					`Array.sum() requires all elements to be numbers when no key is provided. Got ${typeof item} at index ${this.indexOf(item)}`,
-				);
-			}
-			return acc + item;
-		}, 0);
-	}
-
-	// If key is provided, extract values from objects
-	return this.reduce((acc: number, item: T) => {
-		if (!isObjectWithKey(item, key as string)) {
-			throw new TypeError(
-				`Array.sum() requires all elements to have a numeric property '${String(key)}'. Element at index ${this.indexOf(item)} is invalid.`,
-			);
-		}
-		return acc + (item[key as string] as number);
-	}, 0);
-};
-
-/**
- * Implementation of Array.prototype.product
- */
-Array.prototype.product = function <T, K extends keyof T>(
-	this: Array<T>,
-	key?: K,
-): number {
-	if (this.length === 0) {
-		return 1;
-	}
-
-	// If no key is provided, assume array of numbers
-	if (key === undefined) {
-		return this.reduce((acc: number, item: T) => {
-			if (!isNumber(item)) {
-				throw new TypeError(
-					`Array.product() requires all elements to be numbers when no key is provided. Got ${typeof item} at index ${this.indexOf(item)}`,
-				);
-			}
-			return acc * item;
-		}, 1);
-	}
-
-	// If key is provided, extract values from objects
-	return this.reduce((acc: number, item: T) => {
-		if (!isObjectWithKey(item, key as string)) {
-			throw new TypeError(
-				`Array.product() requires all elements to have a numeric property '${String(key)}'. Element at index ${this.indexOf(item)} is invalid.`,
-			);
-		}
-		return acc * (item[key as string] as number);
-	}, 1);
-};
-
-// Export to ensure the module is loaded
-export {};
+export const Arr = { sum, product } as const;
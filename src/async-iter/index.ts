@@ -0,0 +1,401 @@
+import type { Maybe } from "../iter";
+import { Option } from "../option";
+
+/**
+ * Options for `AsyncIter.mapConcurrent`.
+ */
+export type ConcurrencyOptions = {
+	/** The maximum number of calls in flight at the same time. */
+	concurrency: number;
+	/**
+	 * Whether results are yielded in input order (the default), or as soon as they resolve.
+	 */
+	ordered?: boolean;
+};
+
+/**
+ * Anything that can be closed early: a generator or an iterator with a `return` method.
+ */
+type Closable = { return?(value?: undefined): unknown };
+
+/**
+ * A lazy asynchronous iterator with the same adapters as `Iter`.
+ * Nothing is pulled from the source until the iterator is consumed.
+ * `AsyncIter` is itself an `AsyncIterable`, so it can be used with `for await`.
+ */
+export class AsyncIter<T> implements AsyncIterable<T> {
+	private generator: AsyncGenerator<T>;
+	private sources: (AsyncIter<unknown> | Closable)[] = [];
+
+	constructor(generator: AsyncGenerator<T>) {
+		this.generator = generator;
+	}
+
+	/**
+	 * Creates an AsyncIter instance from any async or sync iterable.
+	 * @param iterable An iterable object (e.g., an async generator, a stream, an array)
+	 * @returns An AsyncIter instance wrapping the provided iterable.
+	 */
+	static from<T>(iterable: AsyncIterable<T> | Iterable<T>): AsyncIter<T> {
+		const iter = new AsyncIter(
+			(async function* () {
+				yield* iterable;
+			})(),
+		);
+		if (typeof (iterable as Partial<Iterator<T>>).next === "function") {
+			iter.sources.push(iterable as Closable);
+		}
+		return iter;
+	}
+
+	/**
+	 * Returns the next item from the iterator.
+	 * @returns A promise of an object containing the next value and a done flag.
+	 */
+	next(): Promise<IteratorResult<T>> {
+		return this.generator.next();
+	}
+
+	/**
+	 * Makes the iterator usable with `for await`.
+	 */
+	[Symbol.asyncIterator](): AsyncGenerator<T> {
+		return this.generator;
+	}
+
+	/**
+	 * Wraps an adapter generator, remembering this iterator as its source.
+	 */
+	private adapt<U>(generator: AsyncGenerator<U>): AsyncIter<U> {
+		const iter = new AsyncIter(generator);
+		iter.sources.push(this);
+		return iter;
+	}
+
+	/**
+	 * Closes this iterator and every source it pulls from, including sources whose
+	 * adapters have not started yet.
+	 */
+	private async close(): Promise<void> {
+		await this.generator.return(undefined);
+		for (const source of this.sources) {
+			if (source instanceof AsyncIter) {
+				await source.close();
+			} else {
+				await source.return?.();
+			}
+		}
+	}
+
+	/**
+	 * Applies a mapping function to each item in the iterator, one item at a time.
+	 * @param fn A function that takes an item of type T and returns an item of type U. May return a promise.
+	 * @returns A new AsyncIter instance containing the mapped items.
+	 */
+	map<U>(fn: (item: T) => U | PromiseLike<U>): AsyncIter<U> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				for await (const item of self.generator) {
+					yield await fn(item);
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Filters items in the iterator based on a predicate function.
+	 * @param fn A function that takes an item of type T and returns whether to keep the item. May return a promise.
+	 * @returns A new AsyncIter instance containing only the items that satisfy the predicate.
+	 */
+	filter(fn: (item: T) => boolean | PromiseLike<boolean>): AsyncIter<T> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				for await (const item of self.generator) {
+					if (await fn(item)) yield item;
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Applies a function that can both map and filter items in the iterator.
+	 * If the function returns `None` or undefined, the item is filtered out.
+	 * @param fn A function that takes an item of type T and returns an Option<U>, or a Maybe<U> (U or undefined). May return a promise.
+	 * @returns A new AsyncIter instance containing the mapped items, excluding any that were filtered out.
+	 */
+	filterMap<U>(
+		fn: (item: T) => Option<U> | PromiseLike<Option<U>>,
+	): AsyncIter<U>;
+	filterMap<U>(fn: (item: T) => Maybe<U> | PromiseLike<Maybe<U>>): AsyncIter<U>;
+	filterMap<U>(
+		fn: (item: T) => Option<U> | Maybe<U> | PromiseLike<Option<U> | Maybe<U>>,
+	): AsyncIter<U> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				for await (const item of self.generator) {
+					const mapped = await fn(item);
+					if (mapped instanceof Option) {
+						if (mapped.isSome()) yield mapped.unwrap();
+					} else if (mapped !== undefined) {
+						yield mapped;
+					}
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Creates an iterator that yields the first `n` elements.
+	 * The source is not pulled past the `n`-th element.
+	 * @param n The number of elements to take.
+	 * @returns A new AsyncIter instance that will yield at most `n` elements.
+	 */
+	take(n: number): AsyncIter<T> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				if (n <= 0) {
+					await self.close();
+					return;
+				}
+				let i = 0;
+				for await (const item of self.generator) {
+					yield item;
+					i++;
+					if (i >= n) {
+						break;
+					}
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Creates an iterator that skips the first `n` elements.
+	 * @param n The number of elements to skip.
+	 * @returns A new AsyncIter instance that will skip the first `n` elements.
+	 */
+	skip(n: number): AsyncIter<T> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				let i = 0;
+				for await (const item of self.generator) {
+					if (i < n) {
+						i++;
+						continue;
+					}
+					yield item;
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Creates an iterator that yields the current count and the element.
+	 * @returns A new AsyncIter instance that yields tuples of `[index, item]`.
+	 */
+	enumerate(): AsyncIter<[number, T]> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				let i = 0;
+				for await (const item of self.generator) {
+					yield [i, item] as [number, T];
+					i++;
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Chains this iterator with another.
+	 * @param other The other iterable to chain.
+	 * @returns A new AsyncIter instance that will yield all items from this iterator, then all items from the other.
+	 */
+	chain(other: AsyncIterable<T> | Iterable<T>): AsyncIter<T> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				yield* self.generator;
+				yield* other;
+			})(),
+		);
+	}
+
+	/**
+	 * Zips this iterator with another. Stops as soon as either side is exhausted.
+	 * @param other The other iterable to zip with.
+	 * @returns A new AsyncIter instance that will yield pairs of `[this_item, other_item]`.
+	 */
+	zip<U>(other: AsyncIterable<U> | Iterable<U>): AsyncIter<[T, U]> {
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				const right = AsyncIter.from(other).generator;
+				try {
+					while (true) {
+						const a = await self.next();
+						if (a.done) {
+							break;
+						}
+						const b = await right.next();
+						if (b.done) {
+							break;
+						}
+						yield [a.value, b.value] as [T, U];
+					}
+				} finally {
+					await Promise.all([
+						self.generator.return(undefined),
+						right.return(undefined),
+					]);
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Applies an asynchronous mapping function to each item, running up to `concurrency` calls at once.
+	 * By default results are yielded in input order; with `ordered: false` they are yielded
+	 * as soon as they resolve. If a call rejects, the iterator rejects with the same reason.
+	 *
+	 * ```typescript
+	 * const pages = await AsyncIter.from(pageNumbers)
+	 *   .mapConcurrent(fetchPage, { concurrency: 10 })
+	 *   .collect();
+	 * ```
+	 * @param fn A function that takes an item of type T and returns an item of type U. May return a promise.
+	 * @param options The concurrency limit and output mode.
+	 * @returns A new AsyncIter instance containing the mapped items.
+	 * @throws {RangeError} If `concurrency` is not a positive integer.
+	 */
+	mapConcurrent<U>(
+		fn: (item: T) => U | PromiseLike<U>,
+		options: ConcurrencyOptions,
+	): AsyncIter<U> {
+		const { concurrency, ordered = true } = options;
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new RangeError(
+				`concurrency must be a positive integer, got ${concurrency}`,
+			);
+		}
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				let exhausted = false;
+				let id = 0;
+				const running = new Map<number, Promise<[number, U]>>();
+				const queue: number[] = [];
+				const fill = async () => {
+					while (!exhausted && running.size < concurrency) {
+						const next = await self.next();
+						if (next.done) {
+							exhausted = true;
+							break;
+						}
+						const key = id++;
+						const task = Promise.resolve(next.value)
+							.then(fn)
+							.then((value): [number, U] => [key, value]);
+						// Rejections are observed when the task is awaited below.
+						task.catch(() => {});
+						running.set(key, task);
+						queue.push(key);
+					}
+				};
+				try {
+					await fill();
+					while (running.size > 0) {
+						const [key, value] = ordered
+							? await (running.get(queue[0]) as Promise<[number, U]>)
+							: await Promise.race(running.values());
+						running.delete(key);
+						queue.splice(queue.indexOf(key), 1);
+						await fill();
+						yield value;
+					}
+				} finally {
+					if (!exhausted) {
+						await self.generator.return(undefined);
+					}
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Pulls up to `n` items ahead of the consumer, so the source keeps working
+	 * while the consumer processes the current item.
+	 * @param n The maximum number of items to prefetch.
+	 * @returns A new AsyncIter instance with the same items as the original.
+	 * @throws {RangeError} If `n` is not a positive integer.
+	 */
+	buffer(n: number): AsyncIter<T> {
+		if (!Number.isInteger(n) || n < 1) {
+			throw new RangeError(`buffer size must be a positive integer, got ${n}`);
+		}
+		const self = this;
+		return this.adapt(
+			(async function* () {
+				let exhausted = false;
+				// Async generators queue concurrent `next` calls, so prefetching is safe.
+				const pending: Promise<IteratorResult<T>>[] = [];
+				const fill = () => {
+					while (pending.length < n) {
+						const next = self.next();
+						next.catch(() => {});
+						pending.push(next);
+					}
+				};
+				try {
+					while (true) {
+						fill();
+						const next = await (pending.shift() as Promise<IteratorResult<T>>);
+						if (next.done) {
+							exhausted = true;
+							break;
+						}
+						yield next.value;
+					}
+				} finally {
+					if (!exhausted) {
+						await self.generator.return(undefined);
+					}
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Folds the iterator to a single value.
+	 * @param initialValue The initial value of the accumulator.
+	 * @param fn A function that takes an accumulator and an item and returns a new accumulator. May return a promise.
+	 * @returns A promise of the final accumulated value.
+	 */
+	async fold<U>(
+		initialValue: U,
+		fn: (acc: U, item: T) => U | PromiseLike<U>,
+	): Promise<U> {
+		let acc = initialValue;
+		for await (const item of this.generator) {
+			acc = await fn(acc, item);
+		}
+		return acc;
+	}
+
+	/**
+	 * Collects all items from the iterator into an array.
+	 * @returns A promise of an array containing all items from the iterator.
+	 */
+	async collect(): Promise<T[]> {
+		const items: T[] = [];
+		for await (const item of this.generator) {
+			items.push(item);
+		}
+		return items;
+	}
+}
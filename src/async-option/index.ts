@@ -0,0 +1,201 @@
+import { AsyncResult } from "../async-result";
+import { type None, Option } from "../option";
+import { Result } from "../result";
+
+/**
+ * Represents an asynchronous `Option`: a `Promise<Option<T>>` that can be chained
+ * without awaiting every intermediate step.
+ * `AsyncOption` is thenable, so it can be awaited directly to obtain the underlying `Option`.
+ * Use the static factory methods `AsyncOption.some()`, `AsyncOption.none()` and
+ * `AsyncOption.fromPromise()` to create instances.
+ */
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+	private readonly promise: Promise<Option<T>>;
+
+	public constructor(promise: PromiseLike<Option<T>>) {
+		this.promise = Promise.resolve(promise);
+	}
+
+	/**
+	 * Creates an `AsyncOption` that resolves to a `Some`.
+	 * @param value The value to wrap in a `Some`.
+	 * @returns An `AsyncOption` resolving to `Some`.
+	 */
+	public static some<T>(value: T): AsyncOption<T> {
+		return new AsyncOption(Promise.resolve(Option.some(value)));
+	}
+
+	/**
+	 * Creates an `AsyncOption` that resolves to a `None`.
+	 * @returns An `AsyncOption` resolving to `None`.
+	 */
+	public static none(): AsyncOption<never> {
+		return new AsyncOption(Promise.resolve(Option.none()));
+	}
+
+	/**
+	 * Lifts a synchronous `Option` into an `AsyncOption`.
+	 * @param option The option to wrap.
+	 * @returns An `AsyncOption` resolving to the given option.
+	 */
+	public static fromOption<T>(option: Option<T>): AsyncOption<T> {
+		return new AsyncOption(Promise.resolve(option));
+	}
+
+	/**
+	 * Creates an `AsyncOption` from a promise of a nullable value.
+	 * Resolves to `Some(value)` if the promise resolves to a value other than `null` or `undefined`,
+	 * and to `None` if it resolves to `null` or `undefined`, or rejects.
+	 * @param promise The promise to wrap.
+	 * @returns An `AsyncOption`.
+	 */
+	public static fromPromise<T>(
+		promise: PromiseLike<T | null | undefined>,
+	): AsyncOption<T> {
+		return new AsyncOption(
+			Promise.resolve(promise).then(
+				(value) => Option.fromNullable(value),
+				() => Option.none(),
+			),
+		);
+	}
+
+	/**
+	 * Attaches callbacks for the resolution of the underlying `Option`.
+	 * This makes `AsyncOption` awaitable.
+	 */
+	// biome-ignore lint/suspicious/noThenProperty: AsyncOption is intentionally thenable.
+	public then<R1 = Option<T>, R2 = never>(
+		onfulfilled?: ((value: Option<T>) => R1 | PromiseLike<R1>) | null,
+		onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+	): Promise<R1 | R2> {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * Resolves to `true` if the option is a `Some` value.
+	 */
+	public async isSome(): Promise<boolean> {
+		return (await this.promise).isSome();
+	}
+
+	/**
+	 * Resolves to `true` if the option is a `None` value.
+	 */
+	public async isNone(): Promise<boolean> {
+		return (await this.promise).isNone();
+	}
+
+	/**
+	 * Maps an `AsyncOption<T>` to `AsyncOption<U>` by applying a function to a contained `Some` value,
+	 * or returns a `None` if the option is `None`.
+	 * @param f The function to apply to the value if it's `Some`. May return a promise.
+	 * @returns An `AsyncOption<U>`.
+	 */
+	public map<U>(f: (value: T) => U | PromiseLike<U>): AsyncOption<U> {
+		return new AsyncOption(
+			this.promise.then(async (option) =>
+				option.isSome() ? Option.some(await f(option.unwrap())) : Option.none(),
+			),
+		);
+	}
+
+	/**
+	 * Returns `None` if the option is `None`, otherwise calls `f` with the wrapped value
+	 * and returns the result.
+	 * @param f The function to apply to the value if it's `Some`. May return an `Option`,
+	 * an `AsyncOption` or a promise of an `Option`.
+	 * @returns An `AsyncOption<U>`.
+	 */
+	public flatMap<U>(
+		f: (value: T) => Option<U> | PromiseLike<Option<U>>,
+	): AsyncOption<U> {
+		return new AsyncOption(
+			this.promise.then((option) =>
+				option.isSome() ? f(option.unwrap()) : Option.none(),
+			),
+		);
+	}
+
+	/**
+	 * Returns the option if it is `Some` and the predicate returns `true`, otherwise returns `None`.
+	 * @param predicate The predicate function. May return a promise.
+	 * @returns An `AsyncOption<T>`.
+	 */
+	public filter(
+		predicate: (value: T) => boolean | PromiseLike<boolean>,
+	): AsyncOption<T> {
+		return new AsyncOption(
+			this.promise.then(async (option) =>
+				option.isSome() && (await predicate(option.unwrap()))
+					? option
+					: Option.none(),
+			),
+		);
+	}
+
+	/**
+	 * Transforms the option into an `AsyncResult`, mapping `Some(value)` to `Ok(value)`
+	 * and `None` to `Err(error)`.
+	 * @param error The error to use if the option is `None`.
+	 * @returns An `AsyncResult<T, E>`.
+	 */
+	public okOr<E>(error: E): AsyncResult<T, E> {
+		return new AsyncResult(this.promise.then((option) => option.okOr(error)));
+	}
+
+	/**
+	 * Transforms the option into an `AsyncResult`, mapping `Some(value)` to `Ok(value)`
+	 * and `None` to `Err(f())`.
+	 * @param f The function to compute the error if the option is `None`. May return a promise.
+	 * @returns An `AsyncResult<T, E>`.
+	 */
+	public okOrElse<E>(f: () => E | PromiseLike<E>): AsyncResult<T, E> {
+		return new AsyncResult(
+			this.promise.then(async (option) =>
+				option.isSome()
+					? Result.ok<T, E>(option.unwrap())
+					: Result.err<T, E>(await f()),
+			),
+		);
+	}
+
+	/**
+	 * Resolves to the contained `Some` value, or rejects if the option is `None`.
+	 * @param message The error message to reject with if the option is `None`.
+	 * @returns A promise of the contained value.
+	 */
+	public async unwrap(message?: string): Promise<T> {
+		return (await this.promise).unwrap(message);
+	}
+
+	/**
+	 * Resolves to the contained `Some` value or a provided default.
+	 * @param defaultValue The default value to return if the option is `None`.
+	 * @returns A promise of the contained value or the default value.
+	 */
+	public async unwrapOr<U>(defaultValue: U): Promise<T | U> {
+		return (await this.promise).unwrapOr(defaultValue);
+	}
+
+	/**
+	 * Matches the option and applies the appropriate function.
+	 * @param onSome The function to apply if the option is `Some`. May return a promise.
+	 * @param onNone The function to apply if the option is `None`. May return a promise.
+	 * @returns A promise of the result of applying the appropriate function.
+	 */
+	public async match<U>(
+		onSome: (value: T) => U | PromiseLike<U>,
+		onNone: () => U | PromiseLike<U>,
+	): Promise<U> {
+		const option = await this.promise;
+		return option.isSome() ? onSome(option.unwrap()) : onNone();
+	}
+
+	/**
+	 * Unwraps the option inside `Option.genAsync`: `const value = yield* option.bind();`.
+	 */
+	public async *bind(): AsyncGenerator<None, T, unknown> {
+		return yield* (await this.promise).bind();
+	}
+}
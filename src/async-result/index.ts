@@ -0,0 +1,188 @@
+import { type Err, Result } from "../result";
+
+/**
+ * Represents an asynchronous `Result`: a `Promise<Result<T, E>>` that can be chained
+ * without awaiting every intermediate step.
+ * `AsyncResult` is thenable, so it can be awaited directly to obtain the underlying `Result`.
+ * Use the static factory methods `AsyncResult.ok()`, `AsyncResult.err()` and
+ * `AsyncResult.fromPromise()` to create instances.
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+	private readonly promise: Promise<Result<T, E>>;
+
+	public constructor(promise: PromiseLike<Result<T, E>>) {
+		this.promise = Promise.resolve(promise);
+	}
+
+	/**
+	 * Creates an `AsyncResult` that resolves to a successful outcome.
+	 * @param value The successful value.
+	 * @returns An `AsyncResult` resolving to `Ok`.
+	 */
+	public static ok<T, E>(value: T): AsyncResult<T, E> {
+		return new AsyncResult(Promise.resolve(Result.ok<T, E>(value)));
+	}
+
+	/**
+	 * Creates an `AsyncResult` that resolves to a failed outcome.
+	 * @param error The error value.
+	 * @returns An `AsyncResult` resolving to `Err`.
+	 */
+	public static err<T, E>(error: E): AsyncResult<T, E> {
+		return new AsyncResult(Promise.resolve(Result.err<T, E>(error)));
+	}
+
+	/**
+	 * Lifts a synchronous `Result` into an `AsyncResult`.
+	 * @param result The result to wrap.
+	 * @returns An `AsyncResult` resolving to the given result.
+	 */
+	public static fromResult<T, E>(result: Result<T, E>): AsyncResult<T, E> {
+		return new AsyncResult(Promise.resolve(result));
+	}
+
+	/**
+	 * Creates an `AsyncResult` from a promise that might reject.
+	 * If the promise resolves, returns `Ok(value)`.
+	 * If the promise rejects, returns `Err(mappedError)`.
+	 * @param promise The promise to wrap.
+	 * @param errorMapper A function to map the rejection reason to the error type `E`.
+	 * @returns An `AsyncResult`.
+	 */
+	public static fromPromise<T, E>(
+		promise: PromiseLike<T>,
+		errorMapper: (e: unknown) => E,
+	): AsyncResult<T, E> {
+		return new AsyncResult(
+			Promise.resolve(promise).then(
+				(value) => Result.ok<T, E>(value),
+				(e) => Result.err<T, E>(errorMapper(e)),
+			),
+		);
+	}
+
+	/**
+	 * Attaches callbacks for the resolution of the underlying `Result`.
+	 * This makes `AsyncResult` awaitable.
+	 */
+	// biome-ignore lint/suspicious/noThenProperty: AsyncResult is intentionally thenable.
+	public then<R1 = Result<T, E>, R2 = never>(
+		onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+		onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+	): Promise<R1 | R2> {
+		return this.promise.then(onfulfilled, onrejected);
+	}
+
+	/**
+	 * Resolves to `true` if the result is `Ok`.
+	 */
+	public async isOk(): Promise<boolean> {
+		return (await this.promise).isOk();
+	}
+
+	/**
+	 * Resolves to `true` if the result is `Err`.
+	 */
+	public async isErr(): Promise<boolean> {
+		return (await this.promise).isErr();
+	}
+
+	/**
+	 * Maps an `AsyncResult<T, E>` to `AsyncResult<U, E>` by applying a function to a contained `Ok` value,
+	 * leaving an `Err` value untouched.
+	 * @param f The function to apply to the value if it's `Ok`. May return a promise.
+	 * @returns An `AsyncResult<U, E>`.
+	 */
+	public map<U>(f: (value: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+		return new AsyncResult(
+			this.promise.then(async (result) =>
+				result.isOk()
+					? Result.ok<U, E>(await f(result.unwrap()))
+					: Result.err<U, E>(result.unwrapErr()),
+			),
+		);
+	}
+
+	/**
+	 * Maps an `AsyncResult<T, E>` to `AsyncResult<T, F>` by applying a function to a contained `Err` value,
+	 * leaving an `Ok` value untouched.
+	 * @param f The function to apply to the error if it's `Err`. May return a promise.
+	 * @returns An `AsyncResult<T, F>`.
+	 */
+	public mapErr<F>(f: (error: E) => F | PromiseLike<F>): AsyncResult<T, F> {
+		return new AsyncResult(
+			this.promise.then(async (result) =>
+				result.isErr()
+					? Result.err<T, F>(await f(result.unwrapErr()))
+					: Result.ok<T, F>(result.unwrap()),
+			),
+		);
+	}
+
+	/**
+	 * Returns `Err` if the result is `Err`, otherwise calls `f` with the wrapped value
+	 * and returns the result.
+	 * @param f The function to apply to the value if it's `Ok`. May return a `Result`,
+	 * an `AsyncResult` or a promise of a `Result`.
+	 * @returns An `AsyncResult<U, E>`.
+	 */
+	public flatMap<U>(
+		f: (value: T) => Result<U, E> | PromiseLike<Result<U, E>>,
+	): AsyncResult<U, E> {
+		return new AsyncResult(
+			this.promise.then((result) =>
+				result.isOk()
+					? f(result.unwrap())
+					: Result.err<U, E>(result.unwrapErr()),
+			),
+		);
+	}
+
+	/**
+	 * Resolves to the contained `Ok` value, or rejects if the result is `Err`.
+	 * @param message The error message to reject with if the result is `Err`.
+	 * @returns A promise of the contained value.
+	 */
+	public async unwrap(message?: string): Promise<T> {
+		return (await this.promise).unwrap(message);
+	}
+
+	/**
+	 * Resolves to the contained `Err` value, or rejects if the result is `Ok`.
+	 * @param message The error message to reject with if the result is `Ok`.
+	 * @returns A promise of the contained error.
+	 */
+	public async unwrapErr(message?: string): Promise<E> {
+		return (await this.promise).unwrapErr(message);
+	}
+
+	/**
+	 * Resolves to the contained `Ok` value or a provided default.
+	 * @param defaultValue The default value to return if the result is `Err`.
+	 * @returns A promise of the contained value or the default value.
+	 */
+	public async unwrapOr(defaultValue: T): Promise<T> {
+		return (await this.promise).unwrapOr(defaultValue);
+	}
+
+	/**
+	 * Matches the result and applies the appropriate function.
+	 * @param onOk The function to apply if the result is `Ok`. May return a promise.
+	 * @param onErr The function to apply if the result is `Err`. May return a promise.
+	 * @returns A promise of the result of applying the appropriate function.
+	 */
+	public async match<U>(
+		onOk: (value: T) => U | PromiseLike<U>,
+		onErr: (error: E) => U | PromiseLike<U>,
+	): Promise<U> {
+		const result = await this.promise;
+		return result.isOk() ? onOk(result.unwrap()) : onErr(result.unwrapErr());
+	}
+
+	/**
+	 * Unwraps the result inside `Result.genAsync`: `const value = yield* result.bind();`.
+	 */
+	public async *bind(): AsyncGenerator<Err<never, E>, T, unknown> {
+		return yield* (await this.promise).bind();
+	}
+}
@@ -0,0 +1,107 @@
+/**
+ * An `Error` instance carrying a `_tag` discriminant and the fields it was constructed with.
+ */
+export type TaggedErrorInstance<
+	Tag extends string,
+	A extends object,
+> = Error & {
+	readonly _tag: Tag;
+} & Readonly<A>;
+
+/**
+ * The constructor returned by `TaggedError`.
+ * The type argument describes the extra fields of the error; when it has none,
+ * the constructor argument may be omitted. An optional `message` overrides the default
+ * message, which is the tag itself.
+ */
+export interface TaggedErrorConstructor<Tag extends string> {
+	new <A extends object = object>(
+		...args: keyof A extends never
+			? [args?: A & { message?: string }]
+			: [args: A & { message?: string }]
+	): TaggedErrorInstance<Tag, A>;
+}
+
+/**
+ * Creates a base class for a tagged domain error.
+ * Instances are real `Error`s whose `name` and `_tag` are set to the given tag,
+ * which lets `Result.catchTag` and `Result.catchTags` narrow error unions.
+ *
+ * ```typescript
+ * class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+ * const error = new NotFound({ id: "42" }); // error._tag === "NotFound"
+ * ```
+ * @param tag The discriminant of the error.
+ * @returns A class to extend.
+ */
+export function TaggedError<Tag extends string>(
+	tag: Tag,
+): TaggedErrorConstructor<Tag> {
+	class Tagged extends Error {
+		public readonly _tag: Tag = tag;
+
+		public constructor(args?: object) {
+			super(args && "message" in args ? String(args.message) : (tag as string));
+			this.name = tag;
+			if (args) {
+				Object.assign(this, args);
+			}
+		}
+	}
+	return Tagged as unknown as TaggedErrorConstructor<Tag>;
+}
+
+/**
+ * An error that adds a human-readable context message to an underlying error.
+ * The underlying error is kept as the native `cause`, so tools that understand
+ * `Error.cause` can walk the whole chain.
+ * Created by `Result.context` and `Result.withContext`.
+ */
+export class ContextError<E = unknown> extends Error {
+	public readonly cause: E;
+
+	public constructor(message: string, cause: E) {
+		super(message);
+		this.name = "ContextError";
+		this.cause = cause;
+	}
+}
+
+/**
+ * Formats an error and every error in its `cause` chain, one per line.
+ *
+ * ```text
+ * Error: loading config
+ *   caused by: reading file
+ *   caused by: ENOENT
+ * ```
+ * @param error The outermost error.
+ * @returns The formatted chain.
+ */
+export function formatErrorChain(error: unknown): string {
+	const lines = [`Error: ${describeError(error)}`];
+	const seen = new Set<unknown>([error]);
+	let current = causeOf(error);
+	while (current !== undefined && !seen.has(current)) {
+		seen.add(current);
+		lines.push(`  caused by: ${describeError(current)}`);
+		current = causeOf(current);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Returns the message of an `Error`, or the string form of any other value.
+ */
+function describeError(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Returns the `cause` of an error-like object, or `undefined` if it has none.
+ */
+function causeOf(error: unknown): unknown {
+	return typeof error === "object" && error !== null && "cause" in error
+		? error.cause
+		: undefined;
+}
@@ -1,20 +1,60 @@
-export {} from "./array";
-export { None, Option, Some } from "./option";
-export { Err, Ok, Result } from "./result";
-
-const arr = [1, 2, 3, 4];
-const arrWithObjectsAndNumericValueOnKey = [
-	{ value: 1 },
-	{ value: 2 },
-	{ value: 3 },
-	{ value: 4 },
-];
-
-const arrWithObjectsAndStringValueOnKey = [{ value: "s" }, { value: "asdf" }];
-
-arr.sum();
-arr.sum();
-
-arrWithObjectsAndNumericValueOnKey.sum("value");
-arrWithObjectsAndStringValueOnKey.sum("value");
-arrWithObjectsAndStringValueOnKey.product("value");
+export { Arr } from "./array";
+export { AsyncIter, type ConcurrencyOptions } from "./async-iter";
+export { AsyncOption } from "./async-option";
+export { AsyncResult } from "./async-result";
+export {
+	ContextError,
+	formatErrorChain,
+	TaggedError,
+	type TaggedErrorConstructor,
+	type TaggedErrorInstance,
+} from "./error";
+export {
+	type FlatIterable,
+	type ItemsOf,
+	Iter,
+	type Maybe,
+	Peekable,
+} from "./iter";
+export {
+	DecodeError,
+	type ErrorJSON,
+	fromWire,
+	reviver,
+	toWire,
+	type WireValue,
+} from "./json";
+export {
+	MatchBuilder,
+	match,
+	P,
+	type Pattern,
+} from "./match";
+export {
+	type InferSome,
+	None,
+	Option,
+	OptionCell,
+	type OptionJSON,
+	type PathOf,
+	type PathValue,
+	Some,
+} from "./option";
+export {
+	type Comparator,
+	type ComparatorChain,
+	comparing,
+	naturalOrder,
+	Ordering,
+	reverse,
+} from "./ordering";
+export { type ParallelOptions, WorkerError } from "./parallel";
+export {
+	Err,
+	type InferErr,
+	type InferOk,
+	Ok,
+	Result,
+	type ResultJSON,
+	type ResultOf,
+} from "./result";
@@ -1,10 +1,406 @@
+import { AsyncIter } from "../async-iter";
+import type { From } from "../into";
+import { Option } from "../option";
+import { type Comparator, naturalOrder, Ordering } from "../ordering";
+import {
+	type ParallelOptions,
+	type WorkerError,
+	type WorkerFn,
+	type WorkerOp,
+	WorkerPool,
+} from "../parallel";
+import { Result } from "../result";
+
 export type Maybe<T> = T | undefined;
 
+/**
+ * The element type of `Iter.flattenDepth`: `T` with up to `Depth` levels of nested iterables removed.
+ * Strings are treated as single values, not as iterables of characters.
+ */
+export type FlatIterable<T, Depth extends number> = {
+	done: T;
+	recur: T extends string
+		? T
+		: T extends Iterable<infer Inner>
+			? FlatIterable<Inner, DecrementDepth[Depth]>
+			: T;
+}[Depth extends 0 ? "done" : "recur"];
+
+type DecrementDepth = [
+	never,
+	0,
+	1,
+	2,
+	3,
+	4,
+	5,
+	6,
+	7,
+	8,
+	9,
+	10,
+	11,
+	12,
+	13,
+	14,
+	15,
+	16,
+	17,
+	18,
+	19,
+];
+
+/**
+ * The element types of a tuple of iterables, e.g. `[number, string]` for `[number[], Set<string>]`.
+ */
+export type ItemsOf<I extends readonly Iterable<unknown>[]> = {
+	[K in keyof I]: I[K] extends Iterable<infer T> ? T : never;
+};
+
+/**
+ * Yields the numbers or bigints from `start` towards `end` in steps of `step`.
+ * `start`, `end` and `step` must all be numbers or all be bigints.
+ */
+function* rangeGenerator<N extends number | bigint>(
+	start: N,
+	end: N,
+	step: N,
+	inclusive: boolean,
+): Generator<N> {
+	if (typeof start === "number") {
+		yield* numberRange(
+			start,
+			end as number,
+			step as number,
+			inclusive,
+		) as Generator<N>;
+		return;
+	}
+	const ascending = step > 0;
+	for (
+		let current: N = start;
+		ascending
+			? current < end || (inclusive && current === end)
+			: current > end || (inclusive && current === end);
+		// `+` is not typed for `number | bigint`, but both operands always share a type here.
+		current = ((current as number) + (step as number)) as N
+	) {
+		yield current;
+	}
+}
+
+/**
+ * Yields `start + i * step` for each index `i` in the range, so that rounding errors of a
+ * fractional step do not accumulate. An `end` within rounding error of a step counts as reached:
+ * it is excluded by an exclusive range, and yielded exactly by an inclusive one.
+ */
+function* numberRange(
+	start: number,
+	end: number,
+	step: number,
+	inclusive: boolean,
+): Generator<number> {
+	let steps = (end - start) / step;
+	const nearest = Math.round(steps);
+	const snapped =
+		Math.abs(steps - nearest) <= Number.EPSILON * 8 * Math.max(1, nearest);
+	if (snapped) {
+		steps = nearest;
+	}
+	const count = inclusive ? Math.floor(steps) + 1 : Math.ceil(steps);
+	// Dividing by a whole reciprocal is exact where multiplying is not: 3 / 10 is 0.3, 3 * 0.1 is not.
+	const reciprocal = 1 / step;
+	const offset = Number.isInteger(reciprocal)
+		? (i: number) => i / reciprocal
+		: (i: number) => i * step;
+	for (let i = 0; i < count; i++) {
+		yield inclusive && snapped && i === steps ? end : start + offset(i);
+	}
+}
+
+/**
+ * Opens an iterator over each iterable, runs `body`, and closes every iterator afterwards,
+ * including when the consumer stops early.
+ */
+function* withIterators<T>(
+	iterables: readonly Iterable<unknown>[],
+	body: (iterators: Iterator<unknown>[]) => Generator<T>,
+): Generator<T> {
+	const iterators: Iterator<unknown>[] = [];
+	try {
+		for (const iterable of iterables) {
+			iterators.push(iterable[Symbol.iterator]());
+		}
+		yield* body(iterators);
+	} finally {
+		for (const iterator of iterators) {
+			iterator.return?.();
+		}
+	}
+}
+
+/**
+ * Yields tuples of the next element of every iterable, until any of them is exhausted.
+ */
+function zipGenerator(
+	iterables: readonly Iterable<unknown>[],
+): Generator<unknown[]> {
+	return withIterators(iterables, function* (iterators) {
+		if (iterators.length === 0) {
+			return;
+		}
+		while (true) {
+			const tuple: unknown[] = [];
+			for (const iterator of iterators) {
+				const next = iterator.next();
+				if (next.done) {
+					return;
+				}
+				tuple.push(next.value);
+			}
+			yield tuple;
+		}
+	});
+}
+
+/**
+ * Yields tuples of `Some` next element, or `None` for exhausted iterables, until all are exhausted.
+ */
+function zipLongestGenerator(
+	iterables: readonly Iterable<unknown>[],
+): Generator<Option<unknown>[]> {
+	return withIterators(iterables, function* (iterators) {
+		const done = iterators.map(() => false);
+		while (true) {
+			const tuple = iterators.map((iterator, i) => {
+				const next = done[i] ? undefined : iterator.next();
+				if (!next || next.done) {
+					done[i] = true;
+					return Option.none();
+				}
+				return Option.some(next.value);
+			});
+			if (done.every(Boolean)) {
+				return;
+			}
+			yield tuple;
+		}
+	});
+}
+
+/**
+ * Yields one element from each iterable in turn, dropping iterables as they are exhausted.
+ */
+function roundRobinGenerator(
+	iterables: readonly Iterable<unknown>[],
+): Generator<unknown> {
+	return withIterators(iterables, function* (iterators) {
+		let active = iterators;
+		while (active.length > 0) {
+			const remaining: Iterator<unknown>[] = [];
+			for (const iterator of active) {
+				const next = iterator.next();
+				if (!next.done) {
+					remaining.push(iterator);
+					yield next.value;
+				}
+			}
+			active = remaining;
+		}
+	});
+}
+
+/**
+ * Yields every combination of one element from each iterable, the last iterable varying fastest.
+ * The first iterable is streamed; the others are collected when iteration starts.
+ */
+function* cartesianProductGenerator(
+	iterables: readonly Iterable<unknown>[],
+): Generator<unknown[]> {
+	if (iterables.length === 0) {
+		yield [];
+		return;
+	}
+	const [first, ...rest] = iterables;
+	const pools = rest.map((iterable) => Array.from(iterable));
+	if (pools.some((pool) => pool.length === 0)) {
+		return;
+	}
+	for (const head of first) {
+		const indices = pools.map(() => 0);
+		let i: number;
+		do {
+			yield [head, ...pools.map((pool, j) => pool[indices[j]])];
+			for (i = pools.length - 1; i >= 0; i--) {
+				indices[i]++;
+				if (indices[i] < pools[i].length) {
+					break;
+				}
+				indices[i] = 0;
+			}
+		} while (i >= 0);
+	}
+}
+
+/**
+ * Returned by a pipeline stage to drop the current item.
+ */
+const SKIP = Symbol("skip");
+
+/**
+ * Returned by a pipeline stage to end the iteration without yielding the current item.
+ */
+const STOP = Symbol("stop");
+
+/**
+ * The state of one stage of a pipeline run.
+ * A stage sets `last` to end the iteration once the current item has been handled.
+ */
+type Control = { last: boolean };
+
+/**
+ * One step of a fused pipeline: maps an item to the next item, `SKIP` or `STOP`.
+ */
+type Stage = (item: unknown) => unknown;
+
+/**
+ * A stage of a pipeline, stored as a factory so that every run of a reusable pipeline
+ * starts with fresh per-stage state. A one-shot pipeline creates each stage once, and shares it
+ * with every pipeline built on top of it, so an iterator and its adapters advance the same stages.
+ */
+type Link = {
+	create: (control: Control) => Stage;
+	shared?: { control: Control; stage: Stage };
+};
+
+/**
+ * Consecutive stages fused into a single pull loop over a source.
+ */
+type Pipeline = {
+	source: () => Generator<unknown>;
+	stages: Link[];
+	oneShot: boolean;
+};
+
+/**
+ * Creates the state of a stage.
+ */
+function instantiate(link: Link): { control: Control; stage: Stage } {
+	const control: Control = { last: false };
+	return { control, stage: link.create(control) };
+}
+
+/**
+ * Runs a pipeline: pulls each item from the source once and passes it through every stage
+ * in a single loop, instead of through one generator per stage.
+ * The source is closed when a stage ends the iteration or the run is closed early.
+ */
+function* runPipeline<T>(pipeline: Pipeline): Generator<T> {
+	const instances = pipeline.stages.map((link) => {
+		if (!pipeline.oneShot) {
+			return instantiate(link);
+		}
+		link.shared ??= instantiate(link);
+		return link.shared;
+	});
+	const controls = instances.map((instance) => instance.control);
+	const stages = instances.map((instance) => instance.stage);
+	const source = pipeline.source();
+	let done = false;
+	try {
+		while (!controls.some((control) => control.last)) {
+			const next = source.next();
+			if (next.done) {
+				done = true;
+				return;
+			}
+			let value = next.value;
+			for (let i = 0; i < stages.length; i++) {
+				value = stages[i](value);
+				if (value === STOP) {
+					controls[i].last = true;
+					return;
+				}
+				if (value === SKIP) {
+					break;
+				}
+			}
+			if (value !== SKIP) {
+				yield value as T;
+			}
+		}
+	} finally {
+		if (!done) {
+			source.return(undefined);
+		}
+	}
+}
+
+/**
+ * Anything that can be closed early: an `Iter`, a generator or an iterator with a `return` method.
+ */
+type Closable = { return?(value?: undefined): unknown };
+
+/**
+ * Returns `true` if the value is an iterator that holds state of its own, such as a generator.
+ */
+function isIterator(value: unknown): value is Iterator<unknown> & Closable {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as Iterator<unknown>).next === "function"
+	);
+}
+
+/**
+ * Flattens chunks of results into one result per element, ending after the first `Err`.
+ */
+function flattenChunks<T>(
+	chunks: AsyncIter<Result<T[], WorkerError>>,
+): AsyncIter<Result<T, WorkerError>> {
+	return new AsyncIter(
+		(async function* () {
+			for await (const chunk of chunks) {
+				if (chunk.isErr()) {
+					yield Result.err<T, WorkerError>(chunk.unwrapErr());
+					return;
+				}
+				for (const item of chunk.unwrap()) {
+					yield Result.ok<T, WorkerError>(item);
+				}
+			}
+		})(),
+	);
+}
+
+/**
+ * Returns a function that always returns the given generator.
+ */
+function constant<T>(generator: Generator<T>): () => Generator<T> {
+	return () => generator;
+}
+
+/**
+ * Throws a `RangeError` unless `n` is a positive integer.
+ */
+function assertPositive(name: string, n: number): void {
+	if (!Number.isInteger(n) || n < 1) {
+		throw new RangeError(`${name} must be a positive integer, got ${n}`);
+	}
+}
+
 /**
  * A simple iterator class that supports map, filter, and filterMap operations.
+ * An Iter created with `Iter.from` wraps a single generator and can be consumed once;
+ * one created with `Iter.reusable` restarts from its source every time it is consumed.
+ * Consecutive element-wise adapters (`map`, `filter`, `take`, ...) are fused into a single
+ * loop, so a long chain does not pay for one generator per stage.
  */
-export class Iter<T> {
+export class Iter<T> implements Iterable<T>, Disposable {
 	private generator: Generator<T>;
+	private factory: (() => Generator<T>) | undefined;
+	private sources: Closable[] = [];
+	private pipeline: Pipeline | undefined;
 
 	constructor(generator: Generator<T>) {
 		this.generator = generator;
@@ -16,11 +412,437 @@ export class Iter<T> {
 	 * @returns An Iter instance wrapping the provided iterable.
 	 */
 	static from<T>(iterable: Iterable<T>): Iter<T> {
-		return new Iter(
+		const iter = new Iter(
 			(function* () {
 				yield* iterable;
 			})(),
 		);
+		if (isIterator(iterable)) {
+			iter.sources.push(iterable);
+		}
+		return iter;
+	}
+
+	/**
+	 * Creates an Iter instance from an iterator, such as the result of an ES2025 iterator helper
+	 * or a hand-written object with a `next` method. The iterator does not need to be iterable itself.
+	 * Closing the Iter calls the iterator's `return` method, if it has one.
+	 * @param iterator The iterator to wrap.
+	 * @returns An Iter instance pulling from the iterator.
+	 */
+	static fromIterator<T>(iterator: Iterator<T>): Iter<T> {
+		const iter = new Iter(
+			(function* () {
+				let done = false;
+				try {
+					while (true) {
+						const next = iterator.next();
+						if (next.done) {
+							done = true;
+							return;
+						}
+						yield next.value;
+					}
+				} finally {
+					if (!done) {
+						iterator.return?.();
+					}
+				}
+			})(),
+		);
+		iter.sources.push(iterator);
+		return iter;
+	}
+
+	/**
+	 * Creates an iterator over the numbers from `start` up to, but not including, `end`.
+	 * A negative `step` counts down. Works with numbers and bigints.
+	 * Each element is computed from its index, so fractional steps do not accumulate rounding errors.
+	 *
+	 * ```typescript
+	 * Iter.range(0, 5).collect(); // [0, 1, 2, 3, 4]
+	 * Iter.range(10n, 0n, -5n).collect(); // [10n, 5n]
+	 * Iter.range(0, 1, 0.25).collect(); // [0, 0.25, 0.5, 0.75]
+	 * ```
+	 * @param start The first value.
+	 * @param end The bound, which is never yielded.
+	 * @param step The difference between consecutive values. Defaults to 1.
+	 * @returns A reusable Iter instance over the range.
+	 * @throws {RangeError} If `step` is zero.
+	 */
+	static range(start: number, end: number, step?: number): Iter<number>;
+	static range(start: bigint, end: bigint, step?: bigint): Iter<bigint>;
+	static range(
+		start: number | bigint,
+		end: number | bigint,
+		step?: number | bigint,
+	): Iter<number | bigint> {
+		return Iter.rangeOf(start, end, step, false);
+	}
+
+	/**
+	 * Creates an iterator over the numbers from `start` up to and including `end`.
+	 * A negative `step` counts down. Works with numbers and bigints.
+	 * @param start The first value.
+	 * @param end The last value, which is yielded if the steps land on it, within rounding error.
+	 * @param step The difference between consecutive values. Defaults to 1.
+	 * @returns A reusable Iter instance over the range.
+	 * @throws {RangeError} If `step` is zero.
+	 */
+	static rangeInclusive(
+		start: number,
+		end: number,
+		step?: number,
+	): Iter<number>;
+	static rangeInclusive(
+		start: bigint,
+		end: bigint,
+		step?: bigint,
+	): Iter<bigint>;
+	static rangeInclusive(
+		start: number | bigint,
+		end: number | bigint,
+		step?: number | bigint,
+	): Iter<number | bigint> {
+		return Iter.rangeOf(start, end, step, true);
+	}
+
+	/**
+	 * Shared implementation of `range` and `rangeInclusive`.
+	 */
+	private static rangeOf(
+		start: number | bigint,
+		end: number | bigint,
+		step: number | bigint | undefined,
+		inclusive: boolean,
+	): Iter<number | bigint> {
+		const by = step ?? (typeof start === "bigint" ? BigInt(1) : 1);
+		if (Number(by) === 0) {
+			throw new RangeError("range step must not be zero");
+		}
+		return Iter.reusable(() => rangeGenerator(start, end, by, inclusive));
+	}
+
+	/**
+	 * Creates an iterator that yields the same value forever.
+	 * @param value The value to repeat.
+	 * @returns A reusable, infinite Iter instance.
+	 */
+	static repeat<T>(value: T): Iter<T> {
+		return Iter.repeatWith(() => value);
+	}
+
+	/**
+	 * Creates an iterator that yields the result of calling a function, forever.
+	 * @param fn A function producing each value.
+	 * @returns A reusable, infinite Iter instance.
+	 */
+	static repeatWith<T>(fn: () => T): Iter<T> {
+		return Iter.reusable(function* () {
+			while (true) {
+				yield fn();
+			}
+		});
+	}
+
+	/**
+	 * Creates an iterator that yields a single value.
+	 * @param value The value to yield.
+	 * @returns A reusable Iter instance with one element.
+	 */
+	static once<T>(value: T): Iter<T> {
+		return Iter.reusable(() => [value]);
+	}
+
+	/**
+	 * Creates an iterator that yields nothing.
+	 * @returns A reusable, empty Iter instance.
+	 */
+	static empty<T = never>(): Iter<T> {
+		return Iter.reusable(() => []);
+	}
+
+	/**
+	 * Creates an iterator that calls a function for each element, until it returns `None`.
+	 * The function usually keeps its own state, so the iterator can be consumed once.
+	 * @param fn A function returning `Some` of the next element, or `None` to stop.
+	 * @returns An Iter instance over the produced elements.
+	 */
+	static fromFn<T>(fn: () => Option<T>): Iter<T> {
+		return new Iter(
+			(function* () {
+				for (let next = fn(); next.isSome(); next = fn()) {
+					yield next.unwrap();
+				}
+			})(),
+		);
+	}
+
+	/**
+	 * Creates an iterator where each element is computed from the previous one, until `next` returns `None`.
+	 *
+	 * ```typescript
+	 * Iter.successors(Option.some(1), (x) => Option.fromPredicate(x * 10, (y) => y < 1000)).collect();
+	 * // [1, 10, 100]
+	 * ```
+	 * @param first The first element, or `None` for an empty iterator.
+	 * @param next A function computing the element following the given one.
+	 * @returns A reusable Iter instance over the successors.
+	 */
+	static successors<T>(
+		first: Option<T>,
+		next: (item: T) => Option<T>,
+	): Iter<T> {
+		return Iter.reusable(function* () {
+			for (let current = first; current.isSome(); ) {
+				const item = current.unwrap();
+				yield item;
+				current = next(item);
+			}
+		});
+	}
+
+	/**
+	 * Creates an iterator from a seed and a function producing each element together with the next state,
+	 * until the function returns `None`.
+	 *
+	 * ```typescript
+	 * Iter.unfold([0, 1], ([a, b]) => Option.some([a, [b, a + b]])).take(5).collect();
+	 * // [0, 1, 1, 2, 3]
+	 * ```
+	 * @param seed The initial state.
+	 * @param fn A function returning `Some` of the next element and state, or `None` to stop.
+	 * @returns A reusable Iter instance over the produced elements.
+	 */
+	static unfold<T, S>(seed: S, fn: (state: S) => Option<[T, S]>): Iter<T> {
+		return Iter.reusable(function* () {
+			for (let next = fn(seed); next.isSome(); ) {
+				const [item, state] = next.unwrap();
+				yield item;
+				next = fn(state);
+			}
+		});
+	}
+
+	/**
+	 * Zips any number of iterables into tuples. Stops as soon as any of them is exhausted.
+	 *
+	 * ```typescript
+	 * Iter.zipAll([1, 2, 3], ["a", "b"], [true, false]).collect();
+	 * // [[1, "a", true], [2, "b", false]]
+	 * ```
+	 * @param iterables The iterables to zip.
+	 * @returns A reusable Iter instance over tuples of one element from each iterable.
+	 */
+	static zipAll<I extends Iterable<unknown>[]>(
+		...iterables: I
+	): Iter<ItemsOf<I>> {
+		return Iter.reusable(
+			() => zipGenerator(iterables) as Generator<ItemsOf<I>>,
+		);
+	}
+
+	/**
+	 * Zips any number of iterables into tuples of `Option`s, until all of them are exhausted.
+	 * Exhausted iterables contribute `None`.
+	 *
+	 * ```typescript
+	 * Iter.zipLongest([1, 2], ["a"]).collect();
+	 * // [[Some(1), Some("a")], [Some(2), None]]
+	 * ```
+	 * @param iterables The iterables to zip.
+	 * @returns A reusable Iter instance over tuples of `Option`s.
+	 */
+	static zipLongest<I extends Iterable<unknown>[]>(
+		...iterables: I
+	): Iter<{ [K in keyof I]: Option<ItemsOf<I>[K]> }> {
+		return Iter.reusable(
+			() =>
+				zipLongestGenerator(iterables) as Generator<{
+					[K in keyof I]: Option<ItemsOf<I>[K]>;
+				}>,
+		);
+	}
+
+	/**
+	 * Zips this iterator with another, until both are exhausted.
+	 * Once one side is exhausted, it contributes `None`.
+	 * @param other The other iterator to zip with.
+	 * @returns A new Iter instance that will yield pairs of `[Option<this_item>, Option<other_item>]`.
+	 */
+	zipLongest<U>(other: Iter<U>): Iter<[Option<T>, Option<U>]> {
+		return this.adapt(function* (source) {
+			yield* zipLongestGenerator([source, other.consume()]) as Generator<
+				[Option<T>, Option<U>]
+			>;
+		}, other);
+	}
+
+	/**
+	 * Takes one element from each iterable in turn, skipping iterables that are exhausted,
+	 * until all of them are exhausted.
+	 *
+	 * ```typescript
+	 * Iter.roundRobin([1, 2, 3], [10], [20, 30]).collect(); // [1, 10, 20, 2, 30, 3]
+	 * ```
+	 * @param iterables The iterables to take elements from.
+	 * @returns A reusable Iter instance over the elements of all iterables.
+	 */
+	static roundRobin<I extends Iterable<unknown>[]>(
+		...iterables: I
+	): Iter<ItemsOf<I>[number]> {
+		return Iter.reusable(
+			() => roundRobinGenerator(iterables) as Generator<ItemsOf<I>[number]>,
+		);
+	}
+
+	/**
+	 * Creates an iterator over every combination of one element from each iterable.
+	 * The last iterable varies fastest. The first iterable may be infinite; the others are
+	 * collected into arrays when iteration starts. With no iterables, yields a single empty tuple.
+	 *
+	 * ```typescript
+	 * Iter.cartesianProduct([1, 2], ["a", "b"]).collect();
+	 * // [[1, "a"], [1, "b"], [2, "a"], [2, "b"]]
+	 * ```
+	 * @param iterables The iterables to combine.
+	 * @returns A reusable Iter instance over tuples of one element from each iterable.
+	 */
+	static cartesianProduct<I extends Iterable<unknown>[]>(
+		...iterables: I
+	): Iter<ItemsOf<I>> {
+		return Iter.reusable(
+			() => cartesianProductGenerator(iterables) as Generator<ItemsOf<I>>,
+		);
+	}
+
+	/**
+	 * Pairs every element of this iterator with every element of another.
+	 * The other iterator is collected when iteration starts, so it must be finite.
+	 * @param other The other iterator to combine with.
+	 * @returns A new Iter instance that will yield pairs of `[this_item, other_item]`.
+	 */
+	cartesianProduct<U>(other: Iter<U>): Iter<[T, U]> {
+		return this.adapt(function* (source) {
+			yield* cartesianProductGenerator([source, other.consume()]) as Generator<
+				[T, U]
+			>;
+		}, other);
+	}
+
+	/**
+	 * Creates a re-iterable Iter instance from a factory of iterables.
+	 * Every consuming method, and every adapter built on top of it, calls the factory again,
+	 * so the pipeline can be run many times. `next()` advances a single shared cursor.
+	 * @param factory A function returning a fresh iterable each time it is called.
+	 * @returns An Iter instance that restarts from the factory whenever it is consumed.
+	 */
+	static reusable<T>(factory: () => Iterable<T>): Iter<T> {
+		const start = function* () {
+			yield* factory();
+		};
+		const iter = new Iter(start());
+		iter.factory = start;
+		return iter;
+	}
+
+	/**
+	 * Returns the generator to consume: a fresh one for reusable iterators, the wrapped one otherwise.
+	 */
+	private consume(): Generator<T> {
+		return this.factory ? this.factory() : this.generator;
+	}
+
+	/**
+	 * Builds an adapter on top of this iterator, keeping it reusable if this iterator is.
+	 */
+	private adapt<U>(
+		adapter: (source: Generator<T>) => Generator<U>,
+		...others: Iter<unknown>[]
+	): Iter<U> {
+		const factory = this.factory;
+		if (factory) {
+			return Iter.reusable(() => adapter(factory()));
+		}
+		const iter = new Iter(adapter(this.consume()));
+		iter.sources.push(this, ...others);
+		return iter;
+	}
+
+	/**
+	 * Adds a stage to this iterator's pipeline. Consecutive stages run in one loop.
+	 */
+	private fuse<U>(create: (control: Control) => Stage): Iter<U> {
+		const factory = this.factory;
+		const base: Pipeline = this.pipeline ?? {
+			source: factory ?? constant(this.consume()),
+			stages: [],
+			oneShot: !factory,
+		};
+		const pipeline: Pipeline = {
+			...base,
+			stages: [...base.stages, { create }],
+		};
+		const iter = new Iter(runPipeline<U>(pipeline));
+		iter.pipeline = pipeline;
+		if (factory) {
+			iter.factory = () => runPipeline<U>(pipeline);
+		} else {
+			iter.sources.push(this);
+		}
+		return iter;
+	}
+
+	/**
+	 * Closes every source this iterator pulls from.
+	 */
+	private closeSources(): void {
+		for (const source of this.sources) {
+			source.return?.();
+		}
+	}
+
+	/**
+	 * Makes the iterator usable with `for...of`, spread syntax and `Array.from`.
+	 * Reusable iterators start over every time; others continue where they are.
+	 */
+	[Symbol.iterator](): Generator<T> {
+		return this.consume();
+	}
+
+	/**
+	 * Stops the iterator early and closes every source it pulls from,
+	 * running the `finally` blocks of source generators.
+	 * @param value The value to return.
+	 * @returns A done iterator result.
+	 */
+	return(value?: undefined): IteratorResult<T> {
+		const result = this.generator.return(value);
+		this.closeSources();
+		return result;
+	}
+
+	/**
+	 * Throws an error into the iterator at its current position.
+	 * If the iterator does not handle the error, it is closed along with every source it pulls from.
+	 * @param error The error to throw.
+	 * @returns The next iterator result, if the iterator handles the error.
+	 * @throws The error, if the iterator does not handle it.
+	 */
+	throw(error: unknown): IteratorResult<T> {
+		try {
+			return this.generator.throw(error);
+		} catch (e) {
+			this.closeSources();
+			throw e;
+		}
+	}
+
+	/**
+	 * Closes the iterator and its sources at the end of a `using` block.
+	 */
+	[Symbol.dispose](): void {
+		this.return();
 	}
 
 	/**
@@ -37,14 +859,7 @@ export class Iter<T> {
 	 * @returns A new Iter instance containing the mapped items.
 	 */
 	map<U>(fn: (item: T) => U): Iter<U> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				for (const item of self.generator) {
-					yield fn(item);
-				}
-			})(),
-		);
+		return this.fuse(() => fn as Stage);
 	}
 
 	/**
@@ -53,32 +868,25 @@ export class Iter<T> {
 	 * @returns A new Iter instance containing only the items that satisfy the predicate.
 	 */
 	filter(fn: (item: T) => boolean): Iter<T> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				for (const item of self.generator) {
-					if (fn(item)) yield item;
-				}
-			})(),
-		);
+		return this.fuse(() => (item) => (fn(item as T) ? item : SKIP));
 	}
 
 	/**
 	 * Applies a function that can both map and filter items in the iterator.
-	 * If the function returns undefined, the item is filtered out.
-	 * @param fn A function that takes an item of type T and returns a Maybe<U> (U or undefined).
+	 * If the function returns `None` or undefined, the item is filtered out.
+	 * @param fn A function that takes an item of type T and returns an Option<U>, or a Maybe<U> (U or undefined).
 	 * @returns A new Iter instance containing the mapped items, excluding any that were filtered out.
 	 */
-	filterMap<U>(fn: (item: T) => Maybe<U>): Iter<U> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				for (const item of self.generator) {
-					const mapped = fn(item);
-					if (mapped !== undefined) yield mapped;
-				}
-			})(),
-		);
+	filterMap<U>(fn: (item: T) => Option<U>): Iter<U>;
+	filterMap<U>(fn: (item: T) => Maybe<U>): Iter<U>;
+	filterMap<U>(fn: (item: T) => Option<U> | Maybe<U>): Iter<U> {
+		return this.fuse(() => (item) => {
+			const mapped = fn(item as T);
+			if (mapped instanceof Option) {
+				return mapped.isSome() ? mapped.unwrap() : SKIP;
+			}
+			return mapped === undefined ? SKIP : mapped;
+		});
 	}
 
 	/**
@@ -86,7 +894,7 @@ export class Iter<T> {
 	 * @returns An array containing all items from the iterator.
 	 */
 	collect(): T[] {
-		return Array.from(this.generator);
+		return Array.from(this.consume());
 	}
 
 	/**
@@ -95,26 +903,212 @@ export class Iter<T> {
 	 * @param fn A function that takes an accumulator and an item and returns a new accumulator.
 	 * @returns The final accumulated value.
 	 */
-	fold<U>(initialValue: U, fn: (acc: U, item: T) => U): U {
-		let acc = initialValue;
-		for (const item of this.generator) {
-			acc = fn(acc, item);
+	fold<U>(initialValue: U, fn: (acc: U, item: T) => U): U {
+		let acc = initialValue;
+		for (const item of this.consume()) {
+			acc = fn(acc, item);
+		}
+		return acc;
+	}
+
+	/**
+	 * Folds the iterator with a fallible function, stopping at the first `Err`.
+	 * @param initialValue The initial value of the accumulator.
+	 * @param fn A function that takes an accumulator and an item and returns a `Result` of the new accumulator.
+	 * @returns `Ok` of the final accumulated value, or the first `Err` returned by `fn`.
+	 */
+	tryFold<U, E>(
+		initialValue: U,
+		fn: (acc: U, item: T) => Result<U, E>,
+	): Result<U, E> {
+		let acc = initialValue;
+		for (const item of this.consume()) {
+			const result = fn(acc, item);
+			if (result.isErr()) {
+				return result;
+			}
+			acc = result.unwrap();
+		}
+		return Result.ok(acc);
+	}
+
+	/**
+	 * Calls a fallible function on each element, stopping at the first `Err`.
+	 * @param fn A function that takes an item and returns a `Result`.
+	 * @returns `Ok` if `fn` succeeded for every element, or the first `Err` returned by `fn`.
+	 */
+	tryForEach<E>(fn: (item: T) => Result<unknown, E>): Result<void, E> {
+		for (const item of this.consume()) {
+			const result = fn(item);
+			if (result.isErr()) {
+				return Result.err(result.unwrapErr());
+			}
+		}
+		return Result.ok(undefined);
+	}
+
+	/**
+	 * Collects an iterator of results into a result of an array, stopping at the first `Err`.
+	 * @returns `Ok` of all the `Ok` values, or the first `Err` encountered.
+	 */
+	collectResult<U, E>(this: Iter<Result<U, E>>): Result<U[], E> {
+		const items: U[] = [];
+		for (const result of this.consume()) {
+			if (result.isErr()) {
+				return Result.err(result.unwrapErr());
+			}
+			items.push(result.unwrap());
+		}
+		return Result.ok(items);
+	}
+
+	/**
+	 * Collects the items into a user-defined collection through its `From` implementation.
+	 *
+	 * ```typescript
+	 * const sorted = From.impl((items: Iterable<number>) => [...items].sort());
+	 * Iter.from([3, 1, 2]).collectInto(sorted); // [1, 2, 3]
+	 * ```
+	 * @param target A `From` implementation that builds a collection from an iterable of items.
+	 * @returns The collection built by `target`.
+	 */
+	collectInto<U>(target: From<Iterable<T>, U>): U {
+		return target.from(this.consume());
+	}
+
+	/**
+	 * Collects key-value pairs into a `Map`. Later pairs overwrite earlier ones with the same key.
+	 * This method is only available on iterators of pairs.
+	 * @returns A `Map` of the pairs.
+	 */
+	collectMap<K, V>(this: Iter<readonly [K, V]>): Map<K, V> {
+		return new Map(this.consume());
+	}
+
+	/**
+	 * Collects the items into a `Set`.
+	 * @returns A `Set` of the unique items.
+	 */
+	collectSet(): Set<T> {
+		return new Set(this.consume());
+	}
+
+	/**
+	 * Collects key-value pairs into a plain object. Later pairs overwrite earlier ones with the same key.
+	 * This method is only available on iterators of pairs with property keys.
+	 * @returns An object with a property for each pair.
+	 */
+	collectObject<K extends PropertyKey, V>(
+		this: Iter<readonly [K, V]>,
+	): Record<K, V> {
+		const object = {} as Record<K, V>;
+		for (const [key, value] of this.consume()) {
+			object[key] = value;
+		}
+		return object;
+	}
+
+	/**
+	 * Concatenates the items with a separator between each of them.
+	 * This method is only available on iterators of strings.
+	 * @param separator The string to place between items.
+	 * @returns The joined string.
+	 */
+	join(this: Iter<string>, separator: string): string {
+		let joined = "";
+		let first = true;
+		for (const item of this.consume()) {
+			joined = first ? item : joined + separator + item;
+			first = false;
+		}
+		return joined;
+	}
+
+	/**
+	 * Splits the items into two arrays: those that satisfy a predicate and those that do not.
+	 * @param fn A function that takes an item and returns a boolean. A type guard narrows both arrays.
+	 * @returns A tuple of the matching items and the other items, each in their original order.
+	 */
+	partition<S extends T>(fn: (item: T) => item is S): [S[], Exclude<T, S>[]];
+	partition(fn: (item: T) => boolean): [T[], T[]];
+	partition(fn: (item: T) => boolean): [T[], T[]] {
+		const matching: T[] = [];
+		const other: T[] = [];
+		for (const item of this.consume()) {
+			(fn(item) ? matching : other).push(item);
+		}
+		return [matching, other];
+	}
+
+	/**
+	 * Groups the items by a key.
+	 * @param fn A function that takes an item and returns its key.
+	 * @returns A `Map` from each key to its items, in order of first appearance.
+	 */
+	groupBy<K>(fn: (item: T) => K): Map<K, T[]> {
+		const groups = new Map<K, T[]>();
+		for (const item of this.consume()) {
+			const key = fn(item);
+			const group = groups.get(key);
+			if (group) {
+				group.push(item);
+			} else {
+				groups.set(key, [item]);
+			}
+		}
+		return groups;
+	}
+
+	/**
+	 * Counts the items by a key.
+	 * @param fn A function that takes an item and returns its key.
+	 * @returns A `Map` from each key to its number of items, in order of first appearance.
+	 */
+	countBy<K>(fn: (item: T) => K): Map<K, number> {
+		const counts = new Map<K, number>();
+		for (const item of this.consume()) {
+			const key = fn(item);
+			counts.set(key, (counts.get(key) ?? 0) + 1);
+		}
+		return counts;
+	}
+
+	/**
+	 * Splits an iterator of pairs into two arrays.
+	 * This method is only available on iterators of pairs.
+	 * @returns A tuple of the first elements and the second elements.
+	 */
+	unzip<A, B>(this: Iter<readonly [A, B]>): [A[], B[]] {
+		const left: A[] = [];
+		const right: B[] = [];
+		for (const [a, b] of this.consume()) {
+			left.push(a);
+			right.push(b);
 		}
-		return acc;
+		return [left, right];
 	}
 
 	/**
 	 * Searches for an element in the iterator that satisfies a predicate.
 	 * @param fn A function that takes an item and returns a boolean.
-	 * @returns The first item that satisfies the predicate, or undefined if no such item is found.
+	 * @returns The first item that satisfies the predicate, or `undefined` if no such item is found.
 	 */
 	find(fn: (item: T) => boolean): T | undefined {
-		for (const item of this.generator) {
+		return this.findOption(fn).unwrapOr(undefined);
+	}
+
+	/**
+	 * Like `find`, but returns an `Option`. An `undefined` element is then not mistaken for a missing one.
+	 * @param fn A function that takes an item and returns a boolean.
+	 * @returns `Some` of the first item that satisfies the predicate, or `None` if no such item is found.
+	 */
+	findOption(fn: (item: T) => boolean): Option<T> {
+		for (const item of this.consume()) {
 			if (fn(item)) {
-				return item;
+				return Option.some(item);
 			}
 		}
-		return undefined;
+		return Option.none();
 	}
 
 	/**
@@ -122,14 +1116,11 @@ export class Iter<T> {
 	 * @returns A new Iter instance containing all items from the nested iterables.
 	 */
 	flatten<InnerT>(this: Iter<Iterable<InnerT>>): Iter<InnerT> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				for (const iterable of self.generator) {
-					yield* iterable;
-				}
-			})(),
-		);
+		return this.adapt(function* (source) {
+			for (const iterable of source) {
+				yield* iterable;
+			}
+		});
 	}
 
 	/**
@@ -138,19 +1129,19 @@ export class Iter<T> {
 	 * @returns A new Iter instance that will yield at most `n` elements.
 	 */
 	take(n: number): Iter<T> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				let i = 0;
-				for (const item of self.generator) {
-					if (i >= n) {
-						break;
-					}
-					yield item;
-					i++;
+		return this.fuse((control) => {
+			let i = 0;
+			if (n <= 0) {
+				control.last = true;
+			}
+			return (item) => {
+				i++;
+				if (i >= n) {
+					control.last = true;
 				}
-			})(),
-		);
+				return item;
+			};
+		});
 	}
 
 	/**
@@ -159,19 +1150,10 @@ export class Iter<T> {
 	 * @returns A new Iter instance that will skip the first `n` elements.
 	 */
 	skip(n: number): Iter<T> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				let i = 0;
-				for (const item of self.generator) {
-					if (i < n) {
-						i++;
-						continue;
-					}
-					yield item;
-				}
-			})(),
-		);
+		return this.fuse(() => {
+			let i = 0;
+			return (item) => (i++ < n ? SKIP : item);
+		});
 	}
 
 	/**
@@ -179,16 +1161,10 @@ export class Iter<T> {
 	 * @returns A new Iter instance that yields tuples of `[index, item]`.
 	 */
 	enumerate(): Iter<[number, T]> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				let i = 0;
-				for (const item of self.generator) {
-					yield [i, item];
-					i++;
-				}
-			})(),
-		);
+		return this.fuse(() => {
+			let i = 0;
+			return (item) => [i++, item];
+		});
 	}
 
 	/**
@@ -197,13 +1173,10 @@ export class Iter<T> {
 	 * @returns A new Iter instance that will yield all items from this iterator, then all items from the other iterator.
 	 */
 	chain(other: Iter<T>): Iter<T> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				yield* self.generator;
-				yield* other.generator;
-			})(),
-		);
+		return this.adapt(function* (source) {
+			yield* source;
+			yield* other.consume();
+		}, other);
 	}
 
 	/**
@@ -212,19 +1185,223 @@ export class Iter<T> {
 	 * @returns A new Iter instance that will yield pairs of `[this_item, other_item]`.
 	 */
 	zip<U>(other: Iter<U>): Iter<[T, U]> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				while (true) {
-					const a = self.next();
-					const b = other.next();
-					if (a.done || b.done) {
+		return this.adapt(function* (source) {
+			const right = other.consume();
+			try {
+				for (const a of source) {
+					const b = right.next();
+					if (b.done) {
 						break;
 					}
-					yield [a.value, b.value];
+					yield [a, b.value];
 				}
-			})(),
-		);
+			} finally {
+				right.return(undefined);
+			}
+		}, other);
+	}
+
+	/**
+	 * Alternates between the elements of this iterator and another, starting with this one.
+	 * Once one side is exhausted, the rest of the other side follows.
+	 * @param other The other iterator to interleave with.
+	 * @returns A new Iter instance that will yield the elements of both iterators, alternately.
+	 */
+	interleave(other: Iter<T>): Iter<T> {
+		return this.adapt(function* (source) {
+			yield* roundRobinGenerator([source, other.consume()]) as Generator<T>;
+		}, other);
+	}
+
+	/**
+	 * Creates an iterator that yields the elements in arrays of `n`.
+	 * The last chunk is shorter if the number of elements is not a multiple of `n`.
+	 * @param n The size of each chunk.
+	 * @returns A new Iter instance that yields chunks of at most `n` elements.
+	 * @throws {RangeError} If `n` is not a positive integer.
+	 */
+	chunks(n: number): Iter<T[]> {
+		assertPositive("chunk size", n);
+		return this.adapt(function* (source) {
+			let chunk: T[] = [];
+			for (const item of source) {
+				chunk.push(item);
+				if (chunk.length === n) {
+					yield chunk;
+					chunk = [];
+				}
+			}
+			if (chunk.length > 0) {
+				yield chunk;
+			}
+		});
+	}
+
+	/**
+	 * Creates an iterator that yields every overlapping window of `n` consecutive elements.
+	 * Yields nothing if there are fewer than `n` elements.
+	 * @param n The size of each window.
+	 * @returns A new Iter instance that yields windows of exactly `n` elements.
+	 * @throws {RangeError} If `n` is not a positive integer.
+	 */
+	windows(n: number): Iter<T[]> {
+		assertPositive("window size", n);
+		return this.adapt(function* (source) {
+			const window: T[] = [];
+			for (const item of source) {
+				window.push(item);
+				if (window.length > n) {
+					window.shift();
+				}
+				if (window.length === n) {
+					yield window.slice();
+				}
+			}
+		});
+	}
+
+	/**
+	 * Creates an iterator that yields the first element, then every `n`-th element after it.
+	 * @param n The step between yielded elements.
+	 * @returns A new Iter instance that steps over the elements.
+	 * @throws {RangeError} If `n` is not a positive integer.
+	 */
+	stepBy(n: number): Iter<T> {
+		assertPositive("step", n);
+		return this.fuse(() => {
+			let i = 0;
+			return (item) => (i++ % n === 0 ? item : SKIP);
+		});
+	}
+
+	/**
+	 * Creates an iterator that yields elements while a predicate holds, and stops at the first one that fails it.
+	 * @param fn A function that takes an item and returns a boolean.
+	 * @returns A new Iter instance that yields the leading elements satisfying the predicate.
+	 */
+	takeWhile(fn: (item: T) => boolean): Iter<T> {
+		return this.fuse(() => (item) => (fn(item as T) ? item : STOP));
+	}
+
+	/**
+	 * Creates an iterator that skips elements while a predicate holds, then yields the rest.
+	 * @param fn A function that takes an item and returns a boolean.
+	 * @returns A new Iter instance that yields every element from the first one failing the predicate.
+	 */
+	skipWhile(fn: (item: T) => boolean): Iter<T> {
+		return this.fuse(() => {
+			let skipping = true;
+			return (item) => {
+				if (skipping && fn(item as T)) {
+					return SKIP;
+				}
+				skipping = false;
+				return item;
+			};
+		});
+	}
+
+	/**
+	 * Creates an iterator that maps elements while the function returns `Some`, and stops at the first `None`.
+	 * @param fn A function that takes an item and returns an Option<U>.
+	 * @returns A new Iter instance containing the mapped items up to the first `None`.
+	 */
+	mapWhile<U>(fn: (item: T) => Option<U>): Iter<U> {
+		return this.fuse(() => (item) => {
+			const mapped = fn(item as T);
+			return mapped.isSome() ? mapped.unwrap() : STOP;
+		});
+	}
+
+	/**
+	 * Creates an iterator that yields every intermediate value of a fold.
+	 * @param initialValue The initial value of the accumulator. It is not yielded itself.
+	 * @param fn A function that takes an accumulator and an item and returns a new accumulator.
+	 * @returns A new Iter instance that yields the accumulator after each element.
+	 */
+	scan<U>(initialValue: U, fn: (acc: U, item: T) => U): Iter<U> {
+		return this.fuse(() => {
+			let acc = initialValue;
+			return (item) => {
+				acc = fn(acc, item as T);
+				return acc;
+			};
+		});
+	}
+
+	/**
+	 * Creates an iterator that removes consecutive repeated elements, compared with `===`.
+	 * @returns A new Iter instance without consecutive duplicates.
+	 */
+	dedup(): Iter<T> {
+		return this.dedupBy((a, b) => a === b);
+	}
+
+	/**
+	 * Creates an iterator that removes consecutive elements considered equal by a function.
+	 * @param fn A function that takes the previously yielded item and the current item, and returns whether they are equal.
+	 * @returns A new Iter instance without consecutive duplicates.
+	 */
+	dedupBy(fn: (previous: T, item: T) => boolean): Iter<T> {
+		return this.fuse(() => {
+			let first = true;
+			let previous: T;
+			return (item) => {
+				if (!first && fn(previous, item as T)) {
+					return SKIP;
+				}
+				first = false;
+				previous = item as T;
+				return item;
+			};
+		});
+	}
+
+	/**
+	 * Creates an iterator that places a separator between adjacent elements.
+	 * @param separator The value to yield between elements.
+	 * @returns A new Iter instance with the separator interspersed.
+	 */
+	intersperse<U>(separator: U): Iter<T | U> {
+		return this.adapt<T | U>(function* (source) {
+			let first = true;
+			for (const item of source) {
+				if (!first) {
+					yield separator;
+				}
+				first = false;
+				yield item;
+			}
+		});
+	}
+
+	/**
+	 * Flattens nested iterables up to the given depth. Strings are not flattened into characters.
+	 * @param depth The number of levels to flatten. Defaults to 1.
+	 * @returns A new Iter instance containing the flattened items.
+	 */
+	flattenDepth<D extends number = 1>(
+		depth: D = 1 as D,
+	): Iter<FlatIterable<T, D>> {
+		const flat = function* (item: unknown, level: number): Generator<unknown> {
+			if (
+				level > 0 &&
+				typeof item === "object" &&
+				item !== null &&
+				Symbol.iterator in item
+			) {
+				for (const inner of item as Iterable<unknown>) {
+					yield* flat(inner, level - 1);
+				}
+			} else {
+				yield item;
+			}
+		};
+		return this.adapt(function* (source) {
+			for (const item of source) {
+				yield* flat(item, depth) as Generator<FlatIterable<T, D>>;
+			}
+		});
 	}
 
 	/**
@@ -233,7 +1410,7 @@ export class Iter<T> {
 	 * @returns `true` if every element matches the predicate, `false` otherwise.
 	 */
 	all(fn: (item: T) => boolean): boolean {
-		for (const item of this.generator) {
+		for (const item of this.consume()) {
 			if (!fn(item)) {
 				return false;
 			}
@@ -247,7 +1424,7 @@ export class Iter<T> {
 	 * @returns `true` if any element matches the predicate, `false` otherwise.
 	 */
 	any(fn: (item: T) => boolean): boolean {
-		for (const item of this.generator) {
+		for (const item of this.consume()) {
 			if (fn(item)) {
 				return true;
 			}
@@ -260,7 +1437,11 @@ export class Iter<T> {
 	 * @returns The number of elements in the iterator.
 	 */
 	count(): number {
-		return this.collect().length;
+		let count = 0;
+		for (const _ of this.consume()) {
+			count++;
+		}
+		return count;
 	}
 
 	/**
@@ -268,11 +1449,21 @@ export class Iter<T> {
 	 * @returns The last element of the iterator, or `undefined` if it is empty.
 	 */
 	last(): T | undefined {
+		return this.lastOption().unwrapOr(undefined);
+	}
+
+	/**
+	 * Like `last`, but returns an `Option`.
+	 * @returns `Some` of the last element of the iterator, or `None` if it is empty.
+	 */
+	lastOption(): Option<T> {
+		let found = false;
 		let last: T | undefined;
-		for (const item of this.generator) {
+		for (const item of this.consume()) {
+			found = true;
 			last = item;
 		}
-		return last;
+		return found ? Option.some(last as T) : Option.none();
 	}
 
 	/**
@@ -281,7 +1472,32 @@ export class Iter<T> {
 	 * @returns The `n`-th element, or `undefined` if `n` is out of bounds.
 	 */
 	nth(n: number): T | undefined {
-		return this.skip(n).next().value;
+		return this.nthOption(n).unwrapOr(undefined);
+	}
+
+	/**
+	 * Like `nth`, but returns an `Option`.
+	 * @param n The index of the element to return.
+	 * @returns `Some` of the `n`-th element, or `None` if `n` is out of bounds.
+	 */
+	nthOption(n: number): Option<T> {
+		if (!Number.isInteger(n) || n < 0) {
+			return Option.none();
+		}
+		// Advance with `next` rather than `for...of`, which would close the iterator on return.
+		const generator = this.consume();
+		for (let i = 0; ; i++) {
+			const next = generator.next();
+			if (next.done) {
+				return Option.none();
+			}
+			if (i === n) {
+				if (this.factory) {
+					generator.return(undefined);
+				}
+				return Option.some(next.value);
+			}
+		}
 	}
 
 	/**
@@ -299,15 +1515,10 @@ export class Iter<T> {
 	 * @returns A new Iter instance that will have the same elements as the original.
 	 */
 	inspect(fn: (item: T) => void): Iter<T> {
-		const self = this;
-		return new Iter(
-			(function* () {
-				for (const item of self.generator) {
-					fn(item);
-					yield item;
-				}
-			})(),
-		);
+		return this.fuse(() => (item) => {
+			fn(item as T);
+			return item;
+		});
 	}
 
 	/**
@@ -316,14 +1527,23 @@ export class Iter<T> {
 	 * @returns The index of the first matching element, or `undefined` if no element matches.
 	 */
 	position(fn: (item: T) => boolean): number | undefined {
+		return this.positionOption(fn).unwrapOr(undefined);
+	}
+
+	/**
+	 * Like `position`, but returns an `Option`.
+	 * @param fn A function that takes an item and returns a boolean.
+	 * @returns `Some` of the index of the first matching element, or `None` if no element matches.
+	 */
+	positionOption(fn: (item: T) => boolean): Option<number> {
 		let i = 0;
-		for (const item of this.generator) {
+		for (const item of this.consume()) {
 			if (fn(item)) {
-				return i;
+				return Option.some(i);
 			}
 			i++;
 		}
-		return undefined;
+		return Option.none();
 	}
 
 	/**
@@ -331,12 +1551,18 @@ export class Iter<T> {
 	 * @returns The maximum element, or `undefined` if the iterator is empty.
 	 */
 	max(): T | undefined {
-		let maxVal: T | undefined;
-		for (const item of this.generator) {
-			if (maxVal === undefined) {
-				maxVal = item;
-			} else if (item > maxVal!) {
-				maxVal = item;
+		return this.maxOption().unwrapOr(undefined);
+	}
+
+	/**
+	 * Like `max`, but returns an `Option`.
+	 * @returns `Some` of the maximum element, or `None` if the iterator is empty.
+	 */
+	maxOption(): Option<T> {
+		let maxVal: Option<T> = Option.none();
+		for (const item of this.consume()) {
+			if (maxVal.isNoneOr((current) => item > current)) {
+				maxVal = Option.some(item);
 			}
 		}
 		return maxVal;
@@ -347,17 +1573,250 @@ export class Iter<T> {
 	 * @returns The minimum element, or `undefined` if the iterator is empty.
 	 */
 	min(): T | undefined {
-		let minVal: T | undefined;
-		for (const item of this.generator) {
-			if (minVal === undefined) {
-				minVal = item;
-			} else if (item < minVal!) {
-				minVal = item;
+		return this.minOption().unwrapOr(undefined);
+	}
+
+	/**
+	 * Like `min`, but returns an `Option`.
+	 * @returns `Some` of the minimum element, or `None` if the iterator is empty.
+	 */
+	minOption(): Option<T> {
+		let minVal: Option<T> = Option.none();
+		for (const item of this.consume()) {
+			if (minVal.isNoneOr((current) => item < current)) {
+				minVal = Option.some(item);
 			}
 		}
 		return minVal;
 	}
 
+	/**
+	 * Returns the maximum element according to a comparator.
+	 * If several elements are equally maximum, the last one is returned.
+	 * @param compare A comparator for the elements.
+	 * @returns `Some` of the maximum element, or `None` if the iterator is empty.
+	 */
+	maxBy(compare: Comparator<T>): Option<T> {
+		let maxVal: Option<T> = Option.none();
+		for (const item of this.consume()) {
+			if (maxVal.isNoneOr((current) => compare(item, current) >= 0)) {
+				maxVal = Option.some(item);
+			}
+		}
+		return maxVal;
+	}
+
+	/**
+	 * Returns the minimum element according to a comparator.
+	 * If several elements are equally minimum, the first one is returned.
+	 * @param compare A comparator for the elements.
+	 * @returns `Some` of the minimum element, or `None` if the iterator is empty.
+	 */
+	minBy(compare: Comparator<T>): Option<T> {
+		let minVal: Option<T> = Option.none();
+		for (const item of this.consume()) {
+			if (minVal.isNoneOr((current) => compare(item, current) < 0)) {
+				minVal = Option.some(item);
+			}
+		}
+		return minVal;
+	}
+
+	/**
+	 * Returns the element with the maximum key. The key is computed once per element.
+	 * If several elements are equally maximum, the last one is returned.
+	 * @param key A function extracting the key to compare.
+	 * @param compare A comparator for the keys. Defaults to `naturalOrder`.
+	 * @returns `Some` of the element with the maximum key, or `None` if the iterator is empty.
+	 */
+	maxByKey<K>(
+		key: (item: T) => K,
+		compare: Comparator<K> = naturalOrder,
+	): Option<T> {
+		return this.map((item): [K, T] => [key(item), item])
+			.maxBy((a, b) => compare(a[0], b[0]))
+			.map(([, item]) => item);
+	}
+
+	/**
+	 * Returns the element with the minimum key. The key is computed once per element.
+	 * If several elements are equally minimum, the first one is returned.
+	 * @param key A function extracting the key to compare.
+	 * @param compare A comparator for the keys. Defaults to `naturalOrder`.
+	 * @returns `Some` of the element with the minimum key, or `None` if the iterator is empty.
+	 */
+	minByKey<K>(
+		key: (item: T) => K,
+		compare: Comparator<K> = naturalOrder,
+	): Option<T> {
+		return this.map((item): [K, T] => [key(item), item])
+			.minBy((a, b) => compare(a[0], b[0]))
+			.map(([, item]) => item);
+	}
+
+	/**
+	 * Creates an iterator over the elements in sorted order. The sort is stable.
+	 * All elements are collected when the first one is requested.
+	 * @param compare A comparator for the elements. Defaults to `naturalOrder`.
+	 * @returns A new Iter instance over the sorted elements.
+	 */
+	sorted(compare: Comparator<T> = naturalOrder): Iter<T> {
+		return this.adapt(function* (source) {
+			yield* Array.from(source).sort(compare);
+		});
+	}
+
+	/**
+	 * Creates an iterator over the elements sorted by a key. The sort is stable,
+	 * and the key is computed once per element.
+	 * @param key A function extracting the key to compare.
+	 * @param compare A comparator for the keys. Defaults to `naturalOrder`.
+	 * @returns A new Iter instance over the sorted elements.
+	 */
+	sortedBy<K>(
+		key: (item: T) => K,
+		compare: Comparator<K> = naturalOrder,
+	): Iter<T> {
+		return this.map((item): [K, T] => [key(item), item])
+			.sorted((a, b) => compare(a[0], b[0]))
+			.map(([, item]) => item);
+	}
+
+	/**
+	 * Tests if the elements are sorted according to a comparator.
+	 * @param compare A comparator for the elements. Defaults to `naturalOrder`.
+	 * @returns `true` if no element is greater than the one following it.
+	 */
+	isSorted(compare: Comparator<T> = naturalOrder): boolean {
+		let previous: Option<T> = Option.none();
+		for (const item of this.consume()) {
+			if (previous.isSomeAnd((value) => compare(value, item) > 0)) {
+				return false;
+			}
+			previous = Option.some(item);
+		}
+		return true;
+	}
+
+	/**
+	 * Lexicographically compares the elements of this iterator with those of another.
+	 * @param other The other iterator to compare with.
+	 * @param compare A comparator for the elements. Defaults to `naturalOrder`.
+	 * @returns The `Ordering` of the first differing elements, or of the lengths if one iterator is a prefix of the other.
+	 */
+	cmp(other: Iter<T>, compare: Comparator<T> = naturalOrder): Ordering {
+		const right = other.consume();
+		try {
+			for (const a of this.consume()) {
+				const b = right.next();
+				if (b.done) {
+					return Ordering.Greater;
+				}
+				const ordering = Ordering.from(compare(a, b.value));
+				if (ordering !== Ordering.Equal) {
+					return ordering;
+				}
+			}
+			return right.next().done ? Ordering.Equal : Ordering.Less;
+		} finally {
+			right.return(undefined);
+		}
+	}
+
+	/**
+	 * Tests if this iterator has the same elements as another, in the same order.
+	 * @param other The other iterator to compare with.
+	 * @param eq A function testing two elements for equality. Defaults to `===`.
+	 * @returns `true` if both iterators have equal elements and the same length.
+	 */
+	eq(other: Iter<T>, eq: (a: T, b: T) => boolean = (a, b) => a === b): boolean {
+		return (
+			this.cmp(other, (a, b) => (eq(a, b) ? Ordering.Equal : Ordering.Less)) ===
+			Ordering.Equal
+		);
+	}
+
+	/**
+	 * Creates an iterator that can look at the next element without consuming it.
+	 * @returns A new Peekable instance with the same elements as the original.
+	 */
+	peekable(): Peekable<T> {
+		const source = this.consume();
+		const peekable = new Peekable(source);
+		peekable.sources.push(this.factory ? source : this);
+		return peekable;
+	}
+
+	/**
+	 * Splits the iterator into `n` independent iterators over the same elements.
+	 * Elements pulled by one copy are buffered until every other copy has seen them.
+	 * The original iterator should not be used afterwards. It is closed once every copy is closed.
+	 * @param n The number of copies to create. Defaults to 2.
+	 * @returns An array of `n` Iter instances.
+	 */
+	tee(n = 2): Iter<T>[] {
+		const upstream: Closable = this.factory ? this.consume() : this;
+		const source = this.factory ? (upstream as Generator<T>) : this.consume();
+		const buffers: T[][] = Array.from({ length: n }, () => []);
+		// Only open copies receive new elements, so a closed copy's buffer can be released.
+		const live = new Set(buffers);
+		let done = false;
+		return buffers.map((buffer) => {
+			const close = () => {
+				if (live.delete(buffer)) {
+					buffer.length = 0;
+					if (live.size === 0 && !done) upstream.return?.();
+				}
+			};
+			const copy = new Iter(
+				(function* () {
+					try {
+						while (true) {
+							if (buffer.length > 0) {
+								yield buffer.shift() as T;
+								continue;
+							}
+							if (done) {
+								return;
+							}
+							const next = source.next();
+							if (next.done) {
+								done = true;
+								return;
+							}
+							for (const other of live) {
+								if (other !== buffer) other.push(next.value);
+							}
+							yield next.value;
+						}
+					} finally {
+						close();
+					}
+				})(),
+			);
+			copy.sources.push({ return: close });
+			return copy;
+		});
+	}
+
+	/**
+	 * Creates an iterator that repeats the elements endlessly.
+	 * The elements of the first pass are buffered and replayed; an empty iterator stays empty.
+	 * @returns A new Iter instance that cycles through the elements forever.
+	 */
+	cycle(): Iter<T> {
+		return this.adapt(function* (source) {
+			const seen: T[] = [];
+			for (const item of source) {
+				seen.push(item);
+				yield item;
+			}
+			while (seen.length > 0) {
+				yield* seen;
+			}
+		});
+	}
+
 	/**
 	 * Sums the elements of an iterator.
 	 * This method is only available on iterators of numbers.
@@ -375,4 +1834,178 @@ export class Iter<T> {
 	product(this: Iter<number>): number {
 		return this.fold(1, (acc, item) => acc * item);
 	}
+
+	/**
+	 * Maps the elements on a pool of worker threads, in chunks.
+	 * Results are yielded in input order. If the function throws or a worker fails,
+	 * a single `Err` is yielded and the iterator ends. The pool is started when the result
+	 * is first pulled, and stopped when it is exhausted or closed.
+	 * Elements and results are copied between threads, so they must be structured-cloneable.
+	 *
+	 * ```typescript
+	 * const hashes = await Iter.from(files)
+	 *   .parMap(new URL("./hash.js", import.meta.url), { workers: 4 })
+	 *   .collect(); // Result<string, WorkerError>[]
+	 * ```
+	 * @param fn The module path or URL whose default export maps an element, or a self-contained
+	 * mapping function. May return a promise.
+	 * @param options The number of workers and the chunk size.
+	 * @returns An AsyncIter of `Ok` mapped elements, ending with an `Err` if a worker fails.
+	 * @throws {RangeError} If `workers` or `chunkSize` is not a positive integer.
+	 */
+	parMap<U>(
+		fn: WorkerFn<(item: T) => U | PromiseLike<U>>,
+		options: ParallelOptions = {},
+	): AsyncIter<Result<U, WorkerError>> {
+		return flattenChunks(this.parChunks<U[]>(fn, "map", options));
+	}
+
+	/**
+	 * Filters the elements on a pool of worker threads, in chunks.
+	 * Behaves like `parMap`, but yields the elements for which the predicate returns true.
+	 * @param fn The module path or URL whose default export is the predicate, or a self-contained
+	 * predicate. May return a promise.
+	 * @param options The number of workers and the chunk size.
+	 * @returns An AsyncIter of `Ok` kept elements, ending with an `Err` if a worker fails.
+	 * @throws {RangeError} If `workers` or `chunkSize` is not a positive integer.
+	 */
+	parFilter(
+		fn: WorkerFn<(item: T) => boolean | PromiseLike<boolean>>,
+		options: ParallelOptions = {},
+	): AsyncIter<Result<T, WorkerError>> {
+		return flattenChunks(this.parChunks<T[]>(fn, "filter", options));
+	}
+
+	/**
+	 * Folds the elements on a pool of worker threads.
+	 * Each chunk is folded on a worker starting from `identity`, and the chunk results are
+	 * merged in order with `combine` on the calling thread. `combine` must be associative,
+	 * and `identity` must leave any value unchanged when combined with it.
+	 *
+	 * ```typescript
+	 * const total = await Iter.range(0, 1_000_000)
+	 *   .parFold(0, (acc, x) => acc + expensive(x), (a, b) => a + b);
+	 * ```
+	 * @param identity The initial accumulator of every chunk, and of the merge.
+	 * @param fn The module path or URL whose default export folds an element into an accumulator,
+	 * or a self-contained folding function. May return a promise.
+	 * @param combine A function merging two accumulators.
+	 * @param options The number of workers and the chunk size.
+	 * @returns A promise of `Ok` with the folded value, or `Err` if a worker fails.
+	 * @throws {RangeError} If `workers` or `chunkSize` is not a positive integer.
+	 */
+	parFold<U>(
+		identity: U,
+		fn: WorkerFn<(acc: U, item: T) => U | PromiseLike<U>>,
+		combine: (a: U, b: U) => U,
+		options: ParallelOptions = {},
+	): Promise<Result<U, WorkerError>> {
+		return this.parChunks<U>(fn, "fold", options, identity).fold(
+			Result.ok<U, WorkerError>(identity),
+			(acc, chunk) => acc.andThen((a) => chunk.map((b) => combine(a, b))),
+		);
+	}
+
+	/**
+	 * Runs a worker function over the elements in chunks, keeping one chunk in flight per worker.
+	 * Yields the result of each chunk in order, ending after the first `Err`.
+	 */
+	private parChunks<R>(
+		fn: WorkerFn<(...args: never[]) => unknown>,
+		op: WorkerOp,
+		options: ParallelOptions,
+		initial?: unknown,
+	): AsyncIter<Result<R, WorkerError>> {
+		const { workers, chunkSize = 256 } = options;
+		if (workers !== undefined) {
+			assertPositive("workers", workers);
+		}
+		assertPositive("chunk size", chunkSize);
+		const chunks = this.chunks(chunkSize);
+		return new AsyncIter(
+			(async function* () {
+				const started = await WorkerPool.start(fn, workers);
+				if (started.isErr()) {
+					yield Result.err<R, WorkerError>(started.unwrapErr());
+					return;
+				}
+				const pool = started.unwrap();
+				try {
+					const results = AsyncIter.from(chunks).mapConcurrent(
+						(chunk) => pool.run<R>(op, chunk, initial),
+						{ concurrency: pool.size },
+					);
+					for await (const result of results) {
+						yield result;
+						if (result.isErr()) {
+							return;
+						}
+					}
+				} finally {
+					await pool.terminate();
+				}
+			})(),
+		);
+	}
+}
+
+/**
+ * An iterator that can look at its next element without consuming it.
+ * Created by `Iter.peekable`.
+ */
+export class Peekable<T> extends Iter<T> {
+	private readonly source: Generator<T>;
+	private readonly state: { peeked: IteratorResult<T> | undefined };
+
+	constructor(source: Generator<T>) {
+		const state: { peeked: IteratorResult<T> | undefined } = {
+			peeked: undefined,
+		};
+		super(
+			(function* () {
+				let done = false;
+				try {
+					while (true) {
+						const next = state.peeked ?? source.next();
+						state.peeked = undefined;
+						if (next.done) {
+							done = true;
+							return;
+						}
+						yield next.value;
+					}
+				} finally {
+					if (!done) source.return(undefined);
+				}
+			})(),
+		);
+		this.source = source;
+		this.state = state;
+	}
+
+	/**
+	 * Returns the next element without consuming it.
+	 * @returns `Some` of the next element, or `None` if the iterator is exhausted.
+	 */
+	peek(): Option<T> {
+		if (this.state.peeked === undefined) {
+			this.state.peeked = this.source.next();
+		}
+		const peeked = this.state.peeked;
+		return peeked.done ? Option.none() : Option.some(peeked.value);
+	}
+
+	/**
+	 * Consumes and returns the next element if it satisfies a predicate.
+	 * @param fn A function that takes an item and returns a boolean.
+	 * @returns `Some` of the next element if it satisfies the predicate, otherwise `None`.
+	 */
+	nextIf(fn: (item: T) => boolean): Option<T> {
+		const peeked = this.peek();
+		if (peeked.isSomeAnd(fn)) {
+			this.state.peeked = undefined;
+			return peeked;
+		}
+		return Option.none();
+	}
 }
@@ -0,0 +1,208 @@
+import { ContextError, TaggedError } from "../error";
+import { Option } from "../option";
+import { Result } from "../result";
+
+/**
+ * The error returned when input does not match the documented wire format.
+ */
+export class DecodeError extends TaggedError("DecodeError")<{
+	input: unknown;
+}> {}
+
+/**
+ * The wire format of an `Error`: `{"$error": {name, message, cause?, ...fields}}`,
+ * where `fields` are the error's own enumerable properties, such as a `_tag`.
+ * The stack trace is not kept.
+ */
+export type ErrorJSON = {
+	$error: { name: string; message: string; cause?: unknown } & Record<
+		string,
+		unknown
+	>;
+};
+
+/**
+ * The wire format of a value held by an `Option` or `Result`: `Error`s are encoded
+ * as `ErrorJSON`, anything else is kept as is.
+ */
+export type WireValue<T> = T extends Error ? ErrorJSON : T;
+
+/**
+ * Returns `true` if the value is an object with exactly the given key.
+ */
+function hasOnlyKey(
+	value: unknown,
+	key: string,
+): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return false;
+	}
+	const keys = Object.keys(value);
+	return keys.length === 1 && keys[0] === key;
+}
+
+/**
+ * Converts a single wire-format object into the matching `Option` or `Result` instance.
+ * Any other value is returned untouched.
+ */
+function reviveValue(value: unknown): unknown {
+	if (hasOnlyKey(value, "$some")) {
+		return Option.some(value.$some);
+	}
+	if (hasOnlyKey(value, "$none") && value.$none === true) {
+		return Option.none();
+	}
+	if (hasOnlyKey(value, "$ok")) {
+		return Result.ok(value.$ok);
+	}
+	if (hasOnlyKey(value, "$err")) {
+		return Result.err(value.$err);
+	}
+	if (hasOnlyKey(value, "$error") && isErrorFields(value.$error)) {
+		return decodeError(value.$error);
+	}
+	return value;
+}
+
+/**
+ * Returns `true` if the value has the string `name` and `message` of an encoded `Error`.
+ */
+function isErrorFields(value: unknown): value is ErrorJSON["$error"] {
+	return (
+		isPlainObject(value) &&
+		typeof value.name === "string" &&
+		typeof value.message === "string"
+	);
+}
+
+/**
+ * Encodes an `Error` with its name, message, cause and own enumerable fields.
+ */
+function encodeError(error: Error): ErrorJSON {
+	const encoded: ErrorJSON["$error"] = {
+		name: error.name,
+		message: error.message,
+	};
+	for (const [key, item] of Object.entries(error)) {
+		if (key !== "name" && key !== "message") {
+			encoded[key] = toWire(item);
+		}
+	}
+	if ("cause" in error && error.cause !== undefined) {
+		encoded.cause = toWire(error.cause);
+	}
+	return { $error: encoded };
+}
+
+/**
+ * Rebuilds an `Error` from its encoded fields.
+ * A `ContextError` is rebuilt as one; any other error becomes a plain `Error`
+ * with the original name, message, cause and fields, so a `_tag` still works with `catchTag`.
+ */
+function decodeError({
+	name,
+	message,
+	cause,
+	...fields
+}: ErrorJSON["$error"]): Error {
+	const error =
+		name === "ContextError"
+			? new ContextError(message, cause)
+			: new Error(message);
+	if (cause !== undefined && !(error instanceof ContextError)) {
+		Object.assign(error, { cause });
+	}
+	return Object.assign(error, fields, { name });
+}
+
+/**
+ * A `JSON.parse` reviver that rebuilds `Some`, `None`, `Ok`, `Err` and `Error` instances,
+ * including nested ones, from their wire format.
+ *
+ * ```typescript
+ * const result = JSON.parse(JSON.stringify(Result.ok(Option.some(1))), reviver);
+ * // Ok(Some(1))
+ * ```
+ */
+export function reviver(_key: string, value: unknown): unknown {
+	return reviveValue(value);
+}
+
+/**
+ * Deeply converts every `Option`, `Result` and `Error` inside a value into its wire format,
+ * walking arrays and plain objects.
+ * Use this before `structuredClone` or `postMessage`, which do not call `toJSON`.
+ * @param value The value to convert.
+ * @returns A structurally cloneable copy of the value.
+ */
+export function toWire(value: unknown): unknown {
+	if (value instanceof Option) {
+		return value.isSome() ? { $some: toWire(value.unwrap()) } : { $none: true };
+	}
+	if (value instanceof Result) {
+		return value.isOk()
+			? { $ok: toWire(value.unwrap()) }
+			: { $err: toWire(value.unwrapErr()) };
+	}
+	if (value instanceof Error) {
+		return encodeError(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map(toWire);
+	}
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, toWire(item)]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Deeply rebuilds every `Option`, `Result` and `Error` inside a value from its wire format,
+ * walking arrays and plain objects. This is the inverse of `toWire`.
+ * @param value The value to convert.
+ * @returns The value with `Option` and `Result` instances restored.
+ */
+export function fromWire(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(fromWire);
+	}
+	if (isPlainObject(value)) {
+		return reviveValue(
+			Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [key, fromWire(item)]),
+			),
+		);
+	}
+	return value;
+}
+
+/**
+ * Decodes a JSON string or an already parsed wire-format value.
+ * @param input A JSON string, or a value produced by `toWire` or `JSON.parse`.
+ * @returns `Ok` of the decoded value, or `Err` if the string is not valid JSON.
+ */
+export function decode(input: unknown): Result<unknown, DecodeError> {
+	if (typeof input !== "string") {
+		return Result.ok(fromWire(input));
+	}
+	try {
+		return Result.ok(JSON.parse(input, reviver));
+	} catch (e) {
+		return Result.err(
+			new DecodeError({ input, message: (e as Error).message }),
+		);
+	}
+}
+
+/**
+ * Returns `true` if the value is an object created by an object literal or `Object.create(null)`.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,353 @@
+import { type None, Option, type Some } from "../option";
+import { type Err, type Ok, Result } from "../result";
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+type MatchResult = { matched: false } | { matched: true; payload: unknown };
+
+const MATCH = Symbol("ferrocore.match");
+
+/**
+ * A pattern that tests a value with a predicate.
+ * `N` is the type a matching value is narrowed to, and `X` is the part of the input
+ * the pattern is guaranteed to cover for exhaustiveness checking.
+ */
+export interface Matcher<N, X> {
+	readonly kind: "leaf";
+	readonly [MATCH]: (value: unknown) => MatchResult;
+	/** Type-level only: the narrowed type of a matching value. */
+	readonly narrow?: N;
+	/** Type-level only: the covered part of the input. */
+	readonly exhaust?: X;
+}
+
+/**
+ * A pattern matching a `Some` whose value matches the inner pattern.
+ */
+export interface SomeMatcher<I> {
+	readonly kind: "Some";
+	readonly inner: I;
+	readonly [MATCH]: (value: unknown) => MatchResult;
+}
+
+/**
+ * A pattern matching a `None`.
+ */
+export interface NoneMatcher {
+	readonly kind: "None";
+	readonly [MATCH]: (value: unknown) => MatchResult;
+}
+
+/**
+ * A pattern matching an `Ok` whose value matches the inner pattern.
+ */
+export interface OkMatcher<I> {
+	readonly kind: "Ok";
+	readonly inner: I;
+	readonly [MATCH]: (value: unknown) => MatchResult;
+}
+
+/**
+ * A pattern matching an `Err` whose error matches the inner pattern.
+ */
+export interface ErrMatcher<I> {
+	readonly kind: "Err";
+	readonly inner: I;
+	readonly [MATCH]: (value: unknown) => MatchResult;
+}
+
+/**
+ * Any value accepted as a pattern: a matcher from `P`, a primitive literal compared
+ * with `Object.is`, or an object whose properties are patterns themselves.
+ */
+export type Pattern =
+	| Matcher<unknown, unknown>
+	| SomeMatcher<unknown>
+	| NoneMatcher
+	| OkMatcher<unknown>
+	| ErrMatcher<unknown>
+	| Primitive
+	| { readonly [key: string]: Pattern };
+
+/**
+ * Expands an input type into the union of cases a pattern can cover,
+ * distributing over unions nested inside `Option` and `Result`.
+ */
+type Cases<V> = V extends None
+	? { $kind: "None" }
+	: V extends Some<infer T>
+		? SomeCases<Cases<T>>
+		: V extends Ok<infer T, unknown>
+			? OkCases<Cases<T>>
+			: V extends Err<unknown, infer E>
+				? ErrCases<Cases<E>>
+				: V extends Option<infer T>
+					? SomeCases<Cases<T>> | { $kind: "None" }
+					: V extends Result<infer T, infer E>
+						? OkCases<Cases<T>> | ErrCases<Cases<E>>
+						: V;
+
+type SomeCases<C> = C extends unknown ? { $kind: "Some"; value: C } : never;
+type OkCases<C> = C extends unknown ? { $kind: "Ok"; value: C } : never;
+type ErrCases<C> = C extends unknown ? { $kind: "Err"; error: C } : never;
+
+/**
+ * The cases a pattern is guaranteed to cover.
+ */
+type Covered<P> = P extends SomeMatcher<infer I>
+	? { $kind: "Some"; value: Covered<I> }
+	: P extends NoneMatcher
+		? { $kind: "None" }
+		: P extends OkMatcher<infer I>
+			? { $kind: "Ok"; value: Covered<I> }
+			: P extends ErrMatcher<infer I>
+				? { $kind: "Err"; error: Covered<I> }
+				: P extends Matcher<unknown, infer X>
+					? X
+					: P extends Primitive
+						? P
+						: { -readonly [K in keyof P]: Covered<P[K]> };
+
+/**
+ * The type a value matching a leaf pattern is narrowed to.
+ */
+type Narrowed<P> = P extends Matcher<infer N, unknown>
+	? N
+	: P extends Primitive
+		? P
+		: { -readonly [K in keyof P]: Narrowed<P[K]> };
+
+type Narrow<V, N> = [Extract<V, N>] extends [never] ? V & N : Extract<V, N>;
+
+/**
+ * The value passed to the handler of a pattern: the innermost value matched,
+ * unwrapping every `Some`, `Ok` and `Err` pattern on the way.
+ */
+type Payload<P, V> = P extends SomeMatcher<infer I>
+	? Payload<I, V extends Option<infer T> ? T : never>
+	: P extends NoneMatcher
+		? undefined
+		: P extends OkMatcher<infer I>
+			? Payload<I, V extends Result<infer T, unknown> ? T : never>
+			: P extends ErrMatcher<infer I>
+				? Payload<I, V extends Result<unknown, infer E> ? E : never>
+				: Narrow<V, Narrowed<P>>;
+
+/**
+ * Tests a value against a pattern.
+ */
+function matchPattern(pattern: unknown, value: unknown): MatchResult {
+	if (typeof pattern === "object" && pattern !== null) {
+		if (MATCH in pattern) {
+			return (pattern as Matcher<unknown, unknown>)[MATCH](value);
+		}
+		if (typeof value !== "object" || value === null) {
+			return { matched: false };
+		}
+		for (const [key, inner] of Object.entries(pattern)) {
+			if (
+				!matchPattern(inner, (value as Record<string, unknown>)[key]).matched
+			) {
+				return { matched: false };
+			}
+		}
+		return { matched: true, payload: value };
+	}
+	return Object.is(pattern, value)
+		? { matched: true, payload: value }
+		: { matched: false };
+}
+
+/**
+ * Creates a leaf matcher from a predicate.
+ */
+function leaf<N, X>(predicate: (value: unknown) => boolean): Matcher<N, X> {
+	return {
+		kind: "leaf",
+		[MATCH]: (value) =>
+			predicate(value) ? { matched: true, payload: value } : { matched: false },
+	};
+}
+
+/**
+ * Pattern constructors for `match`.
+ */
+export const P = {
+	/** Matches any value. */
+	_: leaf<unknown, unknown>(() => true),
+	/** Matches any `string`. */
+	string: leaf<string, string>((value) => typeof value === "string"),
+	/** Matches any `number`. */
+	number: leaf<number, number>((value) => typeof value === "number"),
+	/** Matches any `boolean`. */
+	boolean: leaf<boolean, boolean>((value) => typeof value === "boolean"),
+	/** Matches any `bigint`. */
+	bigint: leaf<bigint, bigint>((value) => typeof value === "bigint"),
+	/** Matches any `symbol`. */
+	symbol: leaf<symbol, symbol>((value) => typeof value === "symbol"),
+	/** Matches `null` and `undefined`. */
+	nullish: leaf<null | undefined, null | undefined>(
+		(value) => value === null || value === undefined,
+	),
+
+	/**
+	 * Matches values for which the predicate returns `true`.
+	 * A guard never counts towards exhaustiveness, but a type guard narrows the handler's value.
+	 * @param predicate The predicate function.
+	 */
+	when: <T, N extends T = T>(
+		predicate: ((value: T) => value is N) | ((value: T) => boolean),
+	): Matcher<N, never> =>
+		leaf<N, never>((value) =>
+			(predicate as (value: unknown) => boolean)(value),
+		),
+
+	/**
+	 * Matches a `Some` whose value matches the inner pattern.
+	 * @param inner The pattern for the contained value. Defaults to `P._`.
+	 */
+	Some: <const I extends Pattern = Matcher<unknown, unknown>>(
+		inner?: I,
+	): SomeMatcher<I> => ({
+		kind: "Some",
+		inner: (inner ?? P._) as I,
+		[MATCH]: (value) =>
+			value instanceof Option && value.isSome()
+				? matchPattern(inner ?? P._, value.unwrap())
+				: { matched: false },
+	}),
+
+	/** Matches a `None`. */
+	None: {
+		kind: "None",
+		[MATCH]: (value: unknown): MatchResult =>
+			value instanceof Option && value.isNone()
+				? { matched: true, payload: undefined }
+				: { matched: false },
+	} as NoneMatcher,
+
+	/**
+	 * Matches an `Ok` whose value matches the inner pattern.
+	 * @param inner The pattern for the contained value. Defaults to `P._`.
+	 */
+	Ok: <const I extends Pattern = Matcher<unknown, unknown>>(
+		inner?: I,
+	): OkMatcher<I> => ({
+		kind: "Ok",
+		inner: (inner ?? P._) as I,
+		[MATCH]: (value) =>
+			value instanceof Result && value.isOk()
+				? matchPattern(inner ?? P._, value.unwrap())
+				: { matched: false },
+	}),
+
+	/**
+	 * Matches an `Err` whose error matches the inner pattern.
+	 * @param inner The pattern for the contained error. Defaults to `P._`.
+	 */
+	Err: <const I extends Pattern = Matcher<unknown, unknown>>(
+		inner?: I,
+	): ErrMatcher<I> => ({
+		kind: "Err",
+		inner: (inner ?? P._) as I,
+		[MATCH]: (value) =>
+			value instanceof Result && value.isErr()
+				? matchPattern(inner ?? P._, value.unwrapErr())
+				: { matched: false },
+	}),
+};
+
+/**
+ * A pattern matching expression built by `match`.
+ * `Remaining` tracks the cases not yet covered, and `R` the union of the handlers' return types.
+ */
+export class MatchBuilder<V, Remaining, R> {
+	public constructor(
+		private readonly value: V,
+		private readonly output: { value: R } | undefined,
+	) {}
+
+	/**
+	 * Adds a case to the expression.
+	 * The handler receives the innermost matched value: for `P.Ok(P.Some(P.number))`
+	 * it receives the number.
+	 * @param pattern The pattern to test the value against.
+	 * @param handler The function to call if the pattern matches.
+	 * @returns The builder, with the covered cases removed.
+	 */
+	public with<const Pat extends Pattern, U>(
+		pattern: Pat,
+		handler: (value: Payload<Pat, V>) => U,
+	): MatchBuilder<V, Exclude<Remaining, Covered<Pat>>, R | U> {
+		if (this.output) {
+			return this as MatchBuilder<V, Exclude<Remaining, Covered<Pat>>, R | U>;
+		}
+		const result = matchPattern(pattern, this.value);
+		return new MatchBuilder(
+			this.value,
+			result.matched
+				? { value: handler(result.payload as Payload<Pat, V>) }
+				: undefined,
+		);
+	}
+
+	/**
+	 * Adds a guarded case to the expression.
+	 * Guards never count towards exhaustiveness.
+	 * @param predicate The predicate to test the value with.
+	 * @param handler The function to call if the predicate returns `true`.
+	 * @returns The builder.
+	 */
+	public when<U>(
+		predicate: (value: V) => boolean,
+		handler: (value: V) => U,
+	): MatchBuilder<V, Remaining, R | U> {
+		if (this.output || !predicate(this.value)) {
+			return this as MatchBuilder<V, Remaining, R | U>;
+		}
+		return new MatchBuilder(this.value, { value: handler(this.value) });
+	}
+
+	/**
+	 * Evaluates the expression, falling back to `handler` if no case matched.
+	 * @param handler The function to call if no case matched.
+	 * @returns The result of the matching handler.
+	 */
+	public otherwise<U>(handler: (value: V) => U): R | U {
+		return this.output ? this.output.value : handler(this.value);
+	}
+
+	/**
+	 * Evaluates the expression. Fails type-checking if a case is not covered;
+	 * the expected argument then shows the missing cases.
+	 * @returns The result of the matching handler.
+	 * @throws {Error} If no case matched at runtime.
+	 */
+	public exhaustive(
+		...missing: [Remaining] extends [never] ? [] : [missing: Remaining]
+	): R {
+		if (!this.output) {
+			throw new Error("Pattern matching was not exhaustive");
+		}
+		void missing;
+		return this.output.value;
+	}
+}
+
+/**
+ * Starts a pattern matching expression on a value.
+ *
+ * ```typescript
+ * const message = match(result)
+ *   .with(P.Ok(P.Some(P.number)), (n) => `got ${n}`)
+ *   .with(P.Ok(P.None), () => "nothing")
+ *   .with(P.Err({ _tag: "Timeout" }), (e) => `timed out after ${e.ms}ms`)
+ *   .with(P.Err(), () => "failed")
+ *   .exhaustive();
+ * ```
+ * @param value The value to match.
+ * @returns A `MatchBuilder`.
+ */
+export function match<V>(value: V): MatchBuilder<V, Cases<V>, never> {
+	return new MatchBuilder(value, undefined);
+}
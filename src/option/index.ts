@@ -1,3 +1,61 @@
+import { AsyncOption } from "../async-option";
+import { DecodeError, decode, toWire, type WireValue } from "../json";
+import { Result } from "../result";
+
+/**
+ * Extracts the `Some` value type of an `Option` type.
+ */
+export type InferSome<O> = O extends Option<infer T> ? T : never;
+
+/**
+ * Decrements a recursion depth counter for `PathOf`.
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+/**
+ * The dot-separated property paths of a type, used by `Option.path`.
+ * Array elements are addressed by their index. Recursion stops after a fixed depth.
+ */
+export type PathOf<T, D extends number = 8> = [D] extends [never]
+	? never
+	: T extends (...args: never[]) => unknown
+		? never
+		: T extends readonly unknown[]
+			?
+					| `${number}`
+					| `${number}.${PathOf<NonNullable<T[number]>, PrevDepth[D]>}`
+			: T extends object
+				? {
+						[K in keyof T & string]:
+							| K
+							| `${K}.${PathOf<NonNullable<T[K]>, PrevDepth[D]>}`;
+					}[keyof T & string]
+				: never;
+
+/**
+ * The type found at a dot-separated property path, ignoring `null` and `undefined` on the way.
+ */
+export type PathValue<
+	T,
+	P extends string,
+> = P extends `${infer K}.${infer Rest}`
+	? PathValue<NonNullable<PathStep<T, K>>, Rest>
+	: PathStep<T, P>;
+
+type PathStep<T, K extends string> = T extends readonly unknown[]
+	? K extends `${number}`
+		? T[number]
+		: never
+	: K extends keyof T
+		? T[K]
+		: never;
+
+/**
+ * The JSON wire format of an `Option`: `{"$some": value}` or `{"$none": true}`.
+ * An `Error` value is encoded as `ErrorJSON`.
+ */
+export type OptionJSON<T> = { $some: WireValue<T> } | { $none: true };
+
 /**
  * Represents an optional value: either a value of type `T` (Some) or no value (None).
  * This is an abstract class that serves as the base for `Some` and `None`.
@@ -33,6 +91,163 @@ export abstract class Option<T> {
 			: Option.some(value);
 	}
 
+	/**
+	 * Creates an `Option` from a value and a predicate.
+	 * Returns `Some(value)` if the predicate returns `true`, otherwise returns `None`.
+	 * If the predicate is a type guard, the option is narrowed accordingly.
+	 * @param value The value to test.
+	 * @param predicate The predicate function.
+	 * @returns An `Option`.
+	 */
+	public static fromPredicate<T, U extends T>(
+		value: T,
+		predicate: (value: T) => value is U,
+	): Option<U>;
+	public static fromPredicate<T>(
+		value: T,
+		predicate: (value: T) => boolean,
+	): Option<T>;
+	public static fromPredicate<T>(
+		value: T,
+		predicate: (value: T) => boolean,
+	): Option<T> {
+		return predicate(value) ? Option.some(value) : Option.none();
+	}
+
+	/**
+	 * Combines a tuple, array or record of `Option`s into a single `Option`.
+	 * If every input is `Some`, returns `Some` with the values in the same shape as the input.
+	 * Otherwise, returns `None`.
+	 * @param options The options to combine.
+	 * @returns An `Option` of all the values.
+	 */
+	public static all<R extends readonly Option<unknown>[] | []>(
+		options: R,
+	): Option<{ -readonly [K in keyof R]: InferSome<R[K]> }>;
+	public static all<R extends Record<string, Option<unknown>>>(
+		options: R,
+	): Option<{ [K in keyof R]: InferSome<R[K]> }>;
+	public static all(
+		options: readonly Option<unknown>[] | Record<string, Option<unknown>>,
+	): Option<unknown> {
+		const entries = Object.entries(options);
+		const values: Record<string, unknown> = {};
+		for (const [key, option] of entries) {
+			if (option.isNone()) {
+				return Option.none();
+			}
+			values[key] = option.unwrap();
+		}
+		return Option.some(
+			Array.isArray(options) ? entries.map(([key]) => values[key]) : values,
+		);
+	}
+
+	/**
+	 * Returns the first `Some` in a tuple or array of `Option`s, or `None` if there is none.
+	 * @param options The options to search.
+	 * @returns The first `Some`, or `None`.
+	 */
+	public static any<R extends readonly Option<unknown>[] | []>(
+		options: R,
+	): Option<InferSome<R[number]>>;
+	public static any(options: readonly Option<unknown>[]): Option<unknown> {
+		for (const option of options) {
+			if (option.isSome()) {
+				return option;
+			}
+		}
+		return Option.none();
+	}
+
+	/**
+	 * Collects the values of every `Some` in an iterable, dropping the `None`s.
+	 * @param options The options to collect.
+	 * @returns An array of the contained values, in input order.
+	 */
+	public static values<T>(options: Iterable<Option<T>>): T[] {
+		const values: T[] = [];
+		for (const option of options) {
+			if (option.isSome()) {
+				values.push(option.unwrap());
+			}
+		}
+		return values;
+	}
+
+	/**
+	 * Reads a nested property by its dot-separated path.
+	 * Returns `None` if any segment on the way is `null` or `undefined`.
+	 *
+	 * ```typescript
+	 * Option.path(response, "data.user.address.zip"); // Option<string>
+	 * ```
+	 * @param obj The object to read from.
+	 * @param path The dot-separated path of the property. Array elements are addressed by index.
+	 * @returns An `Option` of the value at the path.
+	 */
+	public static path<T, P extends PathOf<NonNullable<T>>>(
+		obj: T,
+		path: P,
+	): Option<NonNullable<PathValue<NonNullable<T>, P>>> {
+		let current: unknown = obj;
+		for (const key of path.split(".")) {
+			if (current === null || current === undefined) {
+				return Option.none();
+			}
+			current = (current as Record<string, unknown>)[key];
+		}
+		return Option.fromNullable(
+			current as NonNullable<PathValue<NonNullable<T>, P>>,
+		);
+	}
+
+	/**
+	 * Reads an element of an array by index.
+	 * Negative indices count back from the end, like `Array.prototype.at`.
+	 * Like `Option.path`, a hole or a `null` or `undefined` element gives `None`.
+	 * @param array The array to read from.
+	 * @param index The index of the element.
+	 * @returns `Some(element)` if the index is in bounds and the element is present, otherwise `None`.
+	 */
+	public static at<T>(
+		array: ArrayLike<T>,
+		index: number,
+	): Option<NonNullable<T>> {
+		const i = index < 0 ? array.length + index : index;
+		if (!Number.isInteger(i) || i < 0 || i >= array.length) {
+			return Option.none();
+		}
+		return Option.fromNullable(array[i] as NonNullable<T> | undefined);
+	}
+
+	/**
+	 * Reads an entry of a `Map` or a record by key.
+	 * Like `Option.path`, a `null` or `undefined` value gives `None`.
+	 * @param collection The `Map` or record to read from.
+	 * @param key The key of the entry.
+	 * @returns `Some(value)` if the key is present with a value, otherwise `None`.
+	 */
+	public static get<K, V>(
+		collection: ReadonlyMap<K, V>,
+		key: K,
+	): Option<NonNullable<V>>;
+	public static get<T extends object, K extends keyof T>(
+		collection: T,
+		key: K,
+	): Option<NonNullable<T[K]>>;
+	public static get(collection: object, key: unknown): Option<unknown> {
+		if (collection instanceof Map) {
+			return Option.fromNullable(collection.get(key));
+		}
+		const property = key as PropertyKey;
+		return Object.getOwnPropertyDescriptor(collection, property)
+			? Option.fromNullable(
+					(collection as Record<PropertyKey, unknown>)[property],
+				)
+			: Option.none();
+	}
+
 	/**
 	 * Returns the first `Option` if it is `Some`, otherwise returns the second `Option`.
 	 * @param option1 The first option.
@@ -61,6 +276,13 @@ export abstract class Option<T> {
 		return option;
 	}
 
+	/**
+	 * Returns the option if it is `Some` and the predicate returns `true`, otherwise returns `None`.
+	 * @param predicate The predicate function.
+	 * @returns An `Option<T>`.
+	 */
+	public abstract filter(predicate: (value: T) => boolean): Option<T>;
+
 	/**
 	 * Matches the `Option` and applies the appropriate function.
 	 * @param option The option to match.
@@ -95,6 +317,68 @@ export abstract class Option<T> {
 		};
 	}
 
+	/**
+	 * Decodes an `Option` from its wire format.
+	 * Accepts a JSON string or an already parsed value; nested `Option`s and `Result`s are rebuilt too.
+	 * The contained value itself is not validated against `T`.
+	 * @param input A JSON string or a parsed wire-format value.
+	 * @returns `Ok` of the decoded option, or `Err` if the input is malformed.
+	 */
+	public static fromJSON<T = unknown>(
+		input: unknown,
+	): Result<Option<T>, DecodeError> {
+		return decode(input).flatMap((value) =>
+			value instanceof Option
+				? Result.ok(value as Option<T>)
+				: Result.err(
+						new DecodeError({
+							input,
+							message: "Expected an Option in wire format",
+						}),
+					),
+		);
+	}
+
+	/**
+	 * Runs a generator-based computation in which `yield* option.bind()` unwraps an `Option`,
+	 * emulating Rust's `?` operator.
+	 * Binding a `Some` evaluates to its value; binding a `None` short-circuits the
+	 * computation and returns `None`.
+	 * @param body A generator function that yields `Option`s and returns the final value.
+	 * @returns `Some` of the returned value, or `None` if any yielded option was `None`.
+	 */
+	public static gen<T>(body: () => Generator<None, T, unknown>): Option<T> {
+		const iterator = body();
+		const step = iterator.next();
+		if (step.done) {
+			return Option.some(step.value);
+		}
+		iterator.return(undefined as never);
+		return Option.none();
+	}
+
+	/**
+	 * Async variant of `Option.gen`, accepting an async generator function.
+	 * Inside the body, `yield* x.bind()` unwraps both `Option`s and `AsyncOption`s.
+	 * @param body An async generator function that yields `Option`s and returns the final value.
+	 * @returns An `AsyncOption` of the returned value, or `None` if any yielded option was `None`.
+	 */
+	public static genAsync<T>(
+		body: () => AsyncGenerator<None, T, unknown>,
+	): AsyncOption<T> {
+		return new AsyncOption(
+			(async () => {
+				const iterator = body();
+				const step = await iterator.next();
+				if (step.done) {
+					return Option.some(step.value);
+				}
+				await iterator.return(undefined as never);
+				return Option.none();
+			})(),
+		);
+	}
+
 	/**
 	 * Returns `true` if the option is a `Some` value.
 	 */
@@ -145,6 +429,149 @@ export abstract class Option<T> {
 	 * @returns The contained value or the default value.
 	 */
 	public abstract unwrapOr<U>(defaultValue: U): T | U;
+
+	/**
+	 * Returns the contained `Some` value or computes it from a function.
+	 * @param f The function to compute the value if the option is `None`.
+	 * @returns The contained value or the computed value.
+	 */
+	public abstract unwrapOrElse<U>(f: () => U): T | U;
+
+	/**
+	 * Returns the contained `Some` value, or throws an error with the given message if the option is `None`.
+	 * @param message The error message to throw if the option is `None`.
+	 * @returns The contained value.
+	 * @throws {Error} If the option is `None`.
+	 */
+	public abstract expect(message: string): T;
+
+	/**
+	 * Returns `None` if the option is `None`, otherwise returns `optb`.
+	 * @param optb The option to return if this option is `Some`.
+	 * @returns An `Option<U>`.
+	 */
+	public abstract and<U>(optb: Option<U>): Option<U>;
+
+	/**
+	 * Returns the option if it is `Some`, otherwise returns `optb`.
+	 * @param optb The option to return if this option is `None`.
+	 * @returns An `Option<T | U>`.
+	 */
+	public abstract or<U>(optb: Option<U>): Option<T | U>;
+
+	/**
+	 * Returns `Some` if exactly one of this option and `optb` is `Some`, otherwise returns `None`.
+	 * @param optb The other option.
+	 * @returns An `Option<T | U>`.
+	 */
+	public abstract xor<U>(optb: Option<U>): Option<T | U>;
+
+	/**
+	 * Zips this option with another.
+	 * @param other The other option.
+	 * @returns `Some([a, b])` if both options are `Some`, otherwise `None`.
+	 */
+	public abstract zip<U>(other: Option<U>): Option<[T, U]>;
+
+	/**
+	 * Zips this option with another using a function.
+	 * @param other The other option.
+	 * @param f The function to combine both values.
+	 * @returns `Some(f(a, b))` if both options are `Some`, otherwise `None`.
+	 */
+	public abstract zipWith<U, R>(
+		other: Option<U>,
+		f: (value: T, other: U) => R,
+	): Option<R>;
+
+	/**
+	 * Unzips an option containing a tuple into a tuple of options.
+	 * @returns `[Some(a), Some(b)]` if the option is `Some([a, b])`, otherwise `[None, None]`.
+	 */
+	public abstract unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>];
+
+	/**
+	 * Transforms the option into a `Result`, mapping `Some(value)` to `Ok(value)` and `None` to `Err(error)`.
+	 * @param error The error to use if the option is `None`.
+	 * @returns A `Result<T, E>`.
+	 */
+	public abstract okOr<E>(error: E): Result<T, E>;
+
+	/**
+	 * Transforms the option into a `Result`, mapping `Some(value)` to `Ok(value)` and `None` to `Err(f())`.
+	 * @param f The function to compute the error if the option is `None`.
+	 * @returns A `Result<T, E>`.
+	 */
+	public abstract okOrElse<E>(f: () => E): Result<T, E>;
+
+	/**
+	 * Calls `f` with the contained value if the option is `Some`, and returns the option untouched.
+	 * @param f The function to call with the value.
+	 * @returns The original option.
+	 */
+	public abstract inspect(f: (value: T) => void): Option<T>;
+
+	/**
+	 * Returns `true` if the option is `Some` and the value matches a predicate.
+	 * @param f The predicate to apply to the value.
+	 */
+	public abstract isSomeAnd(f: (value: T) => boolean): boolean;
+
+	/**
+	 * Returns `true` if the option is `None` or the value matches a predicate.
+	 * @param f The predicate to apply to the value.
+	 */
+	public abstract isNoneOr(f: (value: T) => boolean): boolean;
+
+	/**
+	 * Returns the provided default if the option is `None`, otherwise applies a function
+	 * to the contained value.
+	 * @param defaultValue The value to return if the option is `None`.
+	 * @param f The function to apply to the value if it's `Some`.
+	 * @returns The mapped value or the default value.
+	 */
+	public abstract mapOr<U>(defaultValue: U, f: (value: T) => U): U;
+
+	/**
+	 * Computes a default if the option is `None`, otherwise applies a function
+	 * to the contained value.
+	 * @param defaultF The function to compute the default if the option is `None`.
+	 * @param f The function to apply to the value if it's `Some`.
+	 * @returns The mapped value or the computed default.
+	 */
+	public abstract mapOrElse<U>(defaultF: () => U, f: (value: T) => U): U;
+
+	/**
+	 * Transposes an `Option` of a `Result` into a `Result` of an `Option`.
+	 * `None` becomes `Ok(None)`, `Some(Ok(v))` becomes `Ok(Some(v))` and `Some(Err(e))` becomes `Err(e)`.
+	 * @returns A `Result<Option<U>, E>`.
+	 */
+	public abstract transpose<U, E>(
+		this: Option<Result<U, E>>,
+	): Result<Option<U>, E>;
+
+	/**
+	 * Converts an `Option<Option<U>>` into an `Option<U>`.
+	 * @returns The inner option if this option is `Some`, otherwise `None`.
+	 */
+	public abstract flatten<U>(this: Option<Option<U>>): Option<U>;
+
+	/**
+	 * Converts the option into its wire format. Called by `JSON.stringify`.
+	 * @returns `{"$some": value}` or `{"$none": true}`.
+	 */
+	public abstract toJSON(): OptionJSON<T>;
+
+	/**
+	 * Unwraps the option inside `Option.gen`: `const value = yield* option.bind();`.
+	 * A `Some` returns its value without yielding; a `None` yields itself.
+	 */
+	public abstract bind(): Generator<None, T, unknown>;
+
+	/**
+	 * Iterates over the contained value: a `Some` yields it once, a `None` yields nothing.
+	 */
+	public abstract [Symbol.iterator](): Iterator<T>;
 }
 
 /**
@@ -178,6 +605,96 @@ export class Some<T> extends Option<T> {
 	public unwrapOr<U>(_defaultValue: U): T | U {
 		return this.value;
 	}
+
+	public unwrapOrElse<U>(_f: () => U): T | U {
+		return this.value;
+	}
+
+	public expect(_message: string): T {
+		return this.value;
+	}
+
+	public filter(predicate: (value: T) => boolean): Option<T> {
+		return predicate(this.value) ? this : Option.none();
+	}
+
+	public and<U>(optb: Option<U>): Option<U> {
+		return optb;
+	}
+
+	public or<U>(_optb: Option<U>): Option<T | U> {
+		return this;
+	}
+
+	public xor<U>(optb: Option<U>): Option<T | U> {
+		return optb.isSome() ? Option.none() : this;
+	}
+
+	public zip<U>(other: Option<U>): Option<[T, U]> {
+		return other.map((value) => [this.value, value]);
+	}
+
+	public zipWith<U, R>(
+		other: Option<U>,
+		f: (value: T, other: U) => R,
+	): Option<R> {
+		return other.map((value) => f(this.value, value));
+	}
+
+	public unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+		const [a, b] = this.unwrap();
+		return [Option.some(a), Option.some(b)];
+	}
+
+	public okOr<E>(_error: E): Result<T, E> {
+		return Result.ok(this.value);
+	}
+
+	public okOrElse<E>(_f: () => E): Result<T, E> {
+		return Result.ok(this.value);
+	}
+
+	public inspect(f: (value: T) => void): Option<T> {
+		f(this.value);
+		return this;
+	}
+
+	public isSomeAnd(f: (value: T) => boolean): boolean {
+		return f(this.value);
+	}
+
+	public isNoneOr(f: (value: T) => boolean): boolean {
+		return f(this.value);
+	}
+
+	public mapOr<U>(_defaultValue: U, f: (value: T) => U): U {
+		return f(this.value);
+	}
+
+	public mapOrElse<U>(_defaultF: () => U, f: (value: T) => U): U {
+		return f(this.value);
+	}
+
+	public transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+		return this.unwrap().map((value) => Option.some(value));
+	}
+
+	public flatten<U>(this: Option<Option<U>>): Option<U> {
+		return this.unwrap();
+	}
+
+	public toJSON(): OptionJSON<T> {
+		return { $some: toWire(this.value) as WireValue<T> };
+	}
+
+	// biome-ignore lint/correctness/useYield: a Some never short-circuits, so it only returns its value.
+	public *bind(): Generator<None, T, unknown> {
+		return this.value;
+	}
+
+	public *[Symbol.iterator](): Iterator<T> {
+		yield this.value;
+	}
 }
 
 /**
@@ -207,4 +724,166 @@ export class None extends Option<never> {
 	public unwrapOr<U>(defaultValue: U): U {
 		return defaultValue;
 	}
+
+	public unwrapOrElse<U>(f: () => U): U {
+		return f();
+	}
+
+	public expect(message: string): never {
+		throw new Error(message);
+	}
+
+	public filter(_predicate: (value: never) => boolean): Option<never> {
+		return this;
+	}
+
+	public and<U>(_optb: Option<U>): Option<U> {
+		return Option.none();
+	}
+
+	public or<U>(optb: Option<U>): Option<U> {
+		return optb;
+	}
+
+	public xor<U>(optb: Option<U>): Option<U> {
+		return optb;
+	}
+
+	public zip<U>(_other: Option<U>): Option<[never, U]> {
+		return Option.none();
+	}
+
+	public zipWith<U, R>(
+		_other: Option<U>,
+		_f: (value: never, other: U) => R,
+	): Option<R> {
+		return Option.none();
+	}
+
+	public unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+		return [Option.none(), Option.none()];
+	}
+
+	public okOr<E>(error: E): Result<never, E> {
+		return Result.err(error);
+	}
+
+	public okOrElse<E>(f: () => E): Result<never, E> {
+		return Result.err(f());
+	}
+
+	public inspect(_f: (value: never) => void): Option<never> {
+		return this;
+	}
+
+	public isSomeAnd(_f: (value: never) => boolean): boolean {
+		return false;
+	}
+
+	public isNoneOr(_f: (value: never) => boolean): boolean {
+		return true;
+	}
+
+	public mapOr<U>(defaultValue: U, _f: (value: never) => U): U {
+		return defaultValue;
+	}
+
+	public mapOrElse<U>(defaultF: () => U, _f: (value: never) => U): U {
+		return defaultF();
+	}
+
+	public transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+		return Result.ok(Option.none());
+	}
+
+	public flatten<U>(this: Option<Option<U>>): Option<U> {
+		return Option.none();
+	}
+
+	public toJSON(): OptionJSON<never> {
+		return { $none: true };
+	}
+
+	public *bind(): Generator<None, never, unknown> {
+		yield this;
+		throw new Error("Cannot resume an Option generator after a None");
+	}
+
+	public [Symbol.iterator](): Iterator<never> {
+		return [][Symbol.iterator]();
+	}
+}
+
+/**
+ * A mutable slot holding an `Option`, mirroring Rust's in-place `Option` methods
+ * such as `take`, `replace` and `get_or_insert_with`.
+ * `Some` and `None` are immutable, so the mutation happens on the cell instead.
+ */
+export class OptionCell<T> {
+	public constructor(private option: Option<T> = Option.none()) {}
+
+	/**
+	 * Returns the option currently held by the cell.
+	 * @returns The current option.
+	 */
+	public get(): Option<T> {
+		return this.option;
+	}
+
+	/**
+	 * Returns `true` if the cell holds a `Some` value.
+	 */
+	public isSome(): boolean {
+		return this.option.isSome();
+	}
+
+	/**
+	 * Returns `true` if the cell holds a `None` value.
+	 */
+	public isNone(): boolean {
+		return this.option.isNone();
+	}
+
+	/**
+	 * Takes the option out of the cell, leaving `None` in its place.
+	 * @returns The option previously held by the cell.
+	 */
+	public take(): Option<T> {
+		const option = this.option;
+		this.option = Option.none();
+		return option;
+	}
+
+	/**
+	 * Replaces the held option with `Some(value)`.
+	 * @param value The new value.
+	 * @returns The option previously held by the cell.
+	 */
+	public replace(value: T): Option<T> {
+		const option = this.option;
+		this.option = Option.some(value);
+		return option;
+	}
+
+	/**
+	 * Inserts `value` into the cell, replacing any previous value.
+	 * @param value The new value.
+	 * @returns The inserted value.
+	 */
+	public insert(value: T): T {
+		this.option = Option.some(value);
+		return value;
+	}
+
+	/**
+	 * Returns the held value, inserting the result of `f` first if the cell is `None`.
+	 * @param f The function to compute the value if the cell is `None`.
+	 * @returns The held or newly inserted value.
+	 */
+	public getOrInsertWith(f: () => T): T {
+		if (this.option.isNone()) {
+			this.option = Option.some(f());
+		}
+		return this.option.unwrap();
+	}
 }
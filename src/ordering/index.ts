@@ -0,0 +1,105 @@
+/**
+ * The result of comparing two values: `Less` (-1), `Equal` (0) or `Greater` (1).
+ * The values are plain numbers, so any function returning an `Ordering` can be passed
+ * to `Array.prototype.sort`.
+ */
+export type Ordering = -1 | 0 | 1;
+
+/**
+ * Compares two values. A negative result means `a` comes first, a positive result means `b` comes first,
+ * and zero means they are equal. Every `Ordering`-returning function is a `Comparator`.
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * The `Ordering` constants, and a conversion from the result of any comparator.
+ */
+export const Ordering = {
+	Less: -1,
+	Equal: 0,
+	Greater: 1,
+
+	/**
+	 * Converts the result of any comparator to an `Ordering`.
+	 * @param n A negative, zero or positive number.
+	 * @returns `Less`, `Equal` or `Greater`.
+	 */
+	from: (n: number): Ordering => (n < 0 ? -1 : n > 0 ? 1 : 0),
+} as const;
+
+/**
+ * A comparator that can be refined with tie-breakers and reversed.
+ * Created by `comparing`.
+ */
+export interface ComparatorChain<T> {
+	(a: T, b: T): Ordering;
+
+	/**
+	 * Adds a tie-breaker used when this comparator considers two values equal.
+	 * @param key A function extracting the key to compare.
+	 * @param compare The comparator for the keys. Defaults to `naturalOrder`.
+	 * @returns A new `ComparatorChain`.
+	 */
+	thenComparing<K>(
+		key: (item: T) => K,
+		compare?: Comparator<K>,
+	): ComparatorChain<T>;
+
+	/**
+	 * Reverses the order of this comparator.
+	 * @returns A new `ComparatorChain`.
+	 */
+	reverse(): ComparatorChain<T>;
+}
+
+/**
+ * Compares two values with `<` and `>`. This works for numbers, strings, bigints and dates.
+ * Values that are neither less nor greater than each other are considered equal.
+ * @param a The first value.
+ * @param b The second value.
+ * @returns The `Ordering` of `a` relative to `b`.
+ */
+export function naturalOrder<T>(a: T, b: T): Ordering {
+	return a < b ? Ordering.Less : a > b ? Ordering.Greater : Ordering.Equal;
+}
+
+/**
+ * Creates a comparator that compares values by a key.
+ *
+ * ```typescript
+ * const byAgeThenName = comparing((p: Person) => p.age).thenComparing((p) => p.name);
+ * people.sort(byAgeThenName.reverse());
+ * ```
+ * @param key A function extracting the key to compare.
+ * @param compare The comparator for the keys. Defaults to `naturalOrder`.
+ * @returns A `ComparatorChain`.
+ */
+export function comparing<T, K>(
+	key: (item: T) => K,
+	compare: Comparator<K> = naturalOrder,
+): ComparatorChain<T> {
+	return chain((a, b) => compare(key(a), key(b)));
+}
+
+/**
+ * Reverses the order of a comparator.
+ * @param compare The comparator to reverse.
+ * @returns A `ComparatorChain` that orders values from greatest to least.
+ */
+export function reverse<T>(compare: Comparator<T>): ComparatorChain<T> {
+	return chain((a, b) => compare(b, a));
+}
+
+/**
+ * Wraps a comparator in a `ComparatorChain`.
+ */
+function chain<T>(compare: Comparator<T>): ComparatorChain<T> {
+	const chained = (a: T, b: T): Ordering => Ordering.from(compare(a, b));
+	chained.thenComparing = <K>(
+		key: (item: T) => K,
+		keyCompare: Comparator<K> = naturalOrder,
+	): ComparatorChain<T> =>
+		chain((a, b) => compare(a, b) || keyCompare(key(a), key(b)));
+	chained.reverse = (): ComparatorChain<T> => reverse(compare);
+	return chained;
+}
@@ -0,0 +1,275 @@
+import type { Worker } from "node:worker_threads";
+import { TaggedError } from "../error";
+import { Result } from "../result";
+
+/**
+ * Options for `Iter.parMap`, `Iter.parFilter` and `Iter.parFold`.
+ */
+export type ParallelOptions = {
+	/** The number of worker threads. Defaults to the number of available CPUs. */
+	workers?: number;
+	/** The number of items sent to a worker at a time. Defaults to 256. */
+	chunkSize?: number;
+};
+
+/**
+ * A function to run on a worker thread. Either:
+ * - the path or URL of a module whose default export is the function, or
+ * - a self-contained function. It is sent to the worker as source code, so it must not
+ *   refer to variables or imports outside its own body.
+ */
+export type WorkerFn<F> = string | URL | F;
+
+/**
+ * The work a worker performs on a chunk of items.
+ */
+export type WorkerOp = "map" | "filter" | "fold";
+
+/**
+ * Returned when a worker function throws, a worker crashes, or a value cannot be sent
+ * to or from a worker. The original error, if any, is kept as the `cause`.
+ */
+export class WorkerError extends TaggedError("WorkerError")<{
+	cause?: unknown;
+}> {}
+
+/**
+ * A message from a worker: the result of a chunk, or the error that stopped it.
+ */
+type Reply = { ok: true; value: unknown } | { ok: false; error: unknown };
+
+/**
+ * A chunk of work waiting for, or running on, a worker.
+ */
+type Job = {
+	op: WorkerOp;
+	items: unknown[];
+	initial: unknown;
+	resolve: (result: Result<unknown, WorkerError>) => void;
+};
+
+/**
+ * The script every worker runs. It loads the function once, then runs it over each
+ * chunk it receives. Errors are posted back instead of crashing the worker.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const load = workerData.module
+	? import(workerData.module).then((module) => module.default)
+	: Promise.resolve().then(() => (0, eval)("(" + workerData.source + ")"));
+load.catch(() => {});
+parentPort.on("message", async ({ op, items, initial }) => {
+	try {
+		const fn = await load;
+		if (typeof fn !== "function") {
+			throw new TypeError("the worker function is not a function");
+		}
+		let value;
+		if (op === "fold") {
+			value = initial;
+			for (const item of items) value = await fn(value, item);
+		} else if (op === "filter") {
+			value = [];
+			for (const item of items) if (await fn(item)) value.push(item);
+		} else {
+			value = [];
+			for (const item of items) value.push(await fn(item));
+		}
+		parentPort.postMessage({ ok: true, value });
+	} catch (error) {
+		try {
+			parentPort.postMessage({ ok: false, error });
+		} catch {
+			parentPort.postMessage({ ok: false, error: String(error) });
+		}
+	}
+});
+`;
+
+/**
+ * A fixed set of `worker_threads` workers running the same function.
+ * Each worker runs one chunk at a time; further chunks wait in a queue.
+ * Node's worker modules are loaded when the pool starts, so importing this module
+ * has no effect on other runtimes.
+ */
+export class WorkerPool {
+	private workers: Worker[] = [];
+	private idle: Worker[] = [];
+	private queue: Job[] = [];
+	private running = new Map<Worker, Job>();
+	private failure: WorkerError | undefined;
+	private terminated = false;
+
+	/**
+	 * Starts a pool of workers running the given function.
+	 * @param fn The module path or URL, or the self-contained function, to run.
+	 * @param size The number of workers. Defaults to the number of available CPUs.
+	 * @returns A promise of the started pool, or `Err` if the workers could not be started.
+	 */
+	static async start(
+		fn: WorkerFn<(...args: never[]) => unknown>,
+		size?: number,
+	): Promise<Result<WorkerPool, WorkerError>> {
+		const pool = new WorkerPool();
+		try {
+			const [{ Worker }, os, url] = await Promise.all([
+				import("node:worker_threads"),
+				import("node:os"),
+				import("node:url"),
+			]);
+			const workerData =
+				typeof fn === "function"
+					? { source: fn.toString() }
+					: {
+							module: (fn instanceof URL ? fn : url.pathToFileURL(fn)).href,
+						};
+			const count = size ?? os.availableParallelism();
+			for (let i = 0; i < count; i++) {
+				const worker = new Worker(WORKER_SOURCE, { eval: true, workerData });
+				worker.on("message", (reply: Reply) => pool.settle(worker, reply));
+				worker.on("error", (error) =>
+					pool.fail(
+						new WorkerError({
+							message: `worker crashed: ${describe(error)}`,
+							cause: error,
+						}),
+					),
+				);
+				worker.on("exit", (code) => {
+					if (!pool.terminated) {
+						pool.fail(
+							new WorkerError({ message: `worker exited with code ${code}` }),
+						);
+					}
+				});
+				pool.workers.push(worker);
+				pool.idle.push(worker);
+			}
+			return Result.ok(pool);
+		} catch (error) {
+			await pool.terminate();
+			return Result.err(
+				new WorkerError({
+					message: `could not start workers: ${describe(error)}`,
+					cause: error,
+				}),
+			);
+		}
+	}
+
+	/**
+	 * The number of workers in the pool.
+	 */
+	get size(): number {
+		return this.workers.length;
+	}
+
+	/**
+	 * Runs the pool's function over a chunk of items on the next free worker.
+	 * The returned promise never rejects: failures are returned as `Err`.
+	 * @param op Whether to map, filter or fold the items.
+	 * @param items The items to send to the worker. They must be structured-cloneable.
+	 * @param initial The initial accumulator of a fold.
+	 * @returns A promise of the mapped items, the kept items or the folded value.
+	 */
+	run<R>(
+		op: WorkerOp,
+		items: unknown[],
+		initial?: unknown,
+	): Promise<Result<R, WorkerError>> {
+		if (this.failure) {
+			return Promise.resolve(Result.err(this.failure));
+		}
+		return new Promise((resolve) => {
+			this.queue.push({
+				op,
+				items,
+				initial,
+				resolve: resolve as Job["resolve"],
+			});
+			this.dispatch();
+		});
+	}
+
+	/**
+	 * Stops every worker. Chunks that have not finished resolve to `Err`.
+	 * @returns A promise that resolves once every worker has exited.
+	 */
+	async terminate(): Promise<void> {
+		this.terminated = true;
+		this.fail(new WorkerError({ message: "worker pool terminated" }));
+		await Promise.all(this.workers.map((worker) => worker.terminate()));
+	}
+
+	/**
+	 * Sends queued chunks to idle workers.
+	 */
+	private dispatch(): void {
+		while (this.idle.length > 0 && this.queue.length > 0) {
+			const worker = this.idle.pop() as Worker;
+			const job = this.queue.shift() as Job;
+			try {
+				worker.postMessage({
+					op: job.op,
+					items: job.items,
+					initial: job.initial,
+				});
+				this.running.set(worker, job);
+			} catch (error) {
+				this.idle.push(worker);
+				job.resolve(
+					Result.err(
+						new WorkerError({
+							message: `could not send items to a worker: ${describe(error)}`,
+							cause: error,
+						}),
+					),
+				);
+			}
+		}
+	}
+
+	/**
+	 * Resolves the chunk a worker has finished, and gives the worker the next chunk.
+	 */
+	private settle(worker: Worker, reply: Reply): void {
+		const job = this.running.get(worker);
+		if (!job) {
+			return;
+		}
+		this.running.delete(worker);
+		this.idle.push(worker);
+		job.resolve(
+			reply.ok
+				? Result.ok(reply.value)
+				: Result.err(
+						new WorkerError({
+							message: `worker task failed: ${describe(reply.error)}`,
+							cause: reply.error,
+						}),
+					),
+		);
+		this.dispatch();
+	}
+
+	/**
+	 * Resolves every running and queued chunk to `Err`. Later chunks fail immediately.
+	 */
+	private fail(error: WorkerError): void {
+		this.failure ??= error;
+		const failure = this.failure;
+		const jobs = [...this.running.values(), ...this.queue];
+		this.running.clear();
+		this.queue = [];
+		for (const job of jobs) {
+			job.resolve(Result.err(failure));
+		}
+	}
+}
+
+/**
+ * Returns the message of an `Error`, or the string form of any other value.
+ */
+function describe(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
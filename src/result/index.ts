@@ -1,3 +1,68 @@
+import { AsyncResult } from "../async-result";
+import { ContextError } from "../error";
+import { Iter } from "../iter";
+import { DecodeError, decode, toWire, type WireValue } from "../json";
+import { Option } from "../option";
+
+/**
+ * Extracts the `Ok` value type of a `Result` type.
+ */
+export type InferOk<R> = R extends Result<infer T, unknown> ? T : never;
+
+/**
+ * Extracts the `Err` value type of a `Result` type.
+ */
+export type InferErr<R> = R extends Result<unknown, infer E> ? E : never;
+
+/**
+ * Extracts the `Result` type returned by a function.
+ * Works for functions returning a `Result`, an `AsyncResult` or a promise of a `Result`.
+ */
+export type ResultOf<F extends (...args: never[]) => unknown> = Awaited<
+	ReturnType<F>
+> extends Result<infer T, infer E>
+	? Result<T, E>
+	: never;
+
+/**
+ * The JSON wire format of a `Result`: `{"$ok": value}` or `{"$err": error}`.
+ * An `Error`, such as a `TaggedError` or `ContextError`, is encoded as `ErrorJSON`.
+ */
+export type ResultJSON<T, E> = { $ok: WireValue<T> } | { $err: WireValue<E> };
+
+/**
+ * Extracts the `_tag` discriminants of the tagged members of an error union.
+ */
+type TagOf<E> = E extends { readonly _tag: infer K extends string } ? K : never;
+
+/**
+ * Handlers for `catchTags`, keyed by the tag they recover from.
+ */
+type TagHandlers<E> = {
+	[K in TagOf<E>]?: (
+		error: Extract<E, { readonly _tag: K }>,
+	) => Result<unknown, unknown>;
+};
+
+/**
+ * Extracts the return type of the handlers present in a `TagHandlers` object.
+ */
+type HandlerResult<H> = {
+	[K in keyof H]-?: H[K] extends (...args: never[]) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Returns `true` if the error is tagged with the given tag.
+ */
+function hasTag(error: unknown, tag: PropertyKey): boolean {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		"_tag" in error &&
+		error._tag === tag
+	);
+}
+
 /**
  * Represents a value that is either a success (`Ok`) or a failure (`Err`).
  * This is an abstract class that serves as the base for `Ok` and `Err`.
@@ -10,18 +75,30 @@ export abstract class Result<T, E> {
 	 * @returns An `Ok` instance.
 	 */
 	public static ok<T, E>(value: T): Result<T, E> {
-		return new Ok(value);
+		return new Ok<T, E>(value);
 	}
 
+	/**
+	 * Converts the result into an `Option` of its `Ok` value, discarding the error.
+	 * @returns `Some(value)` if the result is `Ok`, otherwise `None`.
+	 */
+	public abstract ok(): Option<T>;
+
 	/**
 	 * Creates a `Result` that represents a failed outcome.
 	 * @param error The error value.
 	 * @returns An `Err` instance.
 	 */
 	public static err<T, E>(error: E): Result<T, E> {
-		return new Err(error);
+		return new Err<T, E>(error);
 	}
 
+	/**
+	 * Converts the result into an `Option` of its `Err` value, discarding the success value.
+	 * @returns `Some(error)` if the result is `Err`, otherwise `None`.
+	 */
+	public abstract err(): Option<E>;
+
 	/**
 	 * Maps a `Result<T, E>` to `Result<T, F>` by applying a function to a contained `Err` value,
 	 * leaving an `Ok` value untouched.
@@ -39,6 +116,14 @@ export abstract class Result<T, E> {
 		return Result.ok((result as Ok<T, E>).unwrap());
 	}
 
+	/**
+	 * Maps a `Result<T, E>` to `Result<T, F>` by applying a function to a contained `Err` value,
+	 * leaving an `Ok` value untouched.
+	 * @param f The function to apply to the error if it's `Err`.
+	 * @returns A `Result<T, F>`.
+	 */
+	public abstract mapErr<F>(f: (error: E) => F): Result<T, F>;
+
 	/**
 	 * Returns the first `Result` if it is `Ok`, otherwise returns the second `Result`.
 	 * @param result1 The first result.
@@ -52,6 +137,14 @@ export abstract class Result<T, E> {
 		return result1.isOk() ? result1 : result2;
 	}
 
+	/**
+	 * Returns the result untouched if it is `Ok`, otherwise calls `f` with the wrapped error
+	 * and returns the result.
+	 * @param f The function to apply to the error if it's `Err`.
+	 * @returns A `Result<T, F>`.
+	 */
+	public abstract orElse<F>(f: (error: E) => Result<T, F>): Result<T, F>;
+
 	/**
 	 * Matches the `Result` and applies the appropriate function.
 	 * @param result The result to match.
@@ -88,6 +181,193 @@ export abstract class Result<T, E> {
 		};
 	}
 
+	/**
+	 * Creates a function that returns an `AsyncResult` from a potentially throwing or rejecting async function.
+	 * If the returned promise resolves, the result is `Ok(value)`.
+	 * If the function throws or the promise rejects, the result is `Err(mappedError)`.
+	 * @param fn The async function that might throw or reject.
+	 * @param errorMapper A function to map the thrown error to the error type `E`.
+	 * @returns A new function that returns an `AsyncResult`.
+	 */
+	public static fromAsyncThrowable<T, E, Args extends unknown[]>(
+		fn: (...args: Args) => PromiseLike<T>,
+		errorMapper: (e: unknown) => E,
+	): (...args: Args) => AsyncResult<T, E> {
+		return (...args: Args): AsyncResult<T, E> => {
+			try {
+				return AsyncResult.fromPromise(fn(...args), errorMapper);
+			} catch (_e) {
+				return AsyncResult.err(errorMapper(_e));
+			}
+		};
+	}
+
+	/**
+	 * Converts an `Option` into a `Result`, mapping `Some(value)` to `Ok(value)` and `None` to `Err(error)`.
+	 * @param option The option to convert.
+	 * @param error The error to use if the option is `None`.
+	 * @returns A `Result<T, E>`.
+	 */
+	public static fromOption<T, E>(option: Option<T>, error: E): Result<T, E> {
+		return option.okOr(error);
+	}
+
+	/**
+	 * Combines a tuple, array or record of `Result`s into a single `Result`.
+	 * If every input is `Ok`, returns `Ok` with the values in the same shape as the input.
+	 * Otherwise, returns the first `Err` encountered.
+	 * @param results The results to combine.
+	 * @returns A `Result` of all the values, or the first error.
+	 */
+	public static all<R extends readonly Result<unknown, unknown>[] | []>(
+		results: R,
+	): Result<{ -readonly [K in keyof R]: InferOk<R[K]> }, InferErr<R[number]>>;
+	public static all<R extends Record<string, Result<unknown, unknown>>>(
+		results: R,
+	): Result<{ [K in keyof R]: InferOk<R[K]> }, InferErr<R[keyof R]>>;
+	public static all(
+		results:
+			| readonly Result<unknown, unknown>[]
+			| Record<string, Result<unknown, unknown>>,
+	): Result<unknown, unknown> {
+		const entries = Object.entries(results);
+		const values: Record<string, unknown> = {};
+		for (const [key, result] of entries) {
+			if (result.isErr()) {
+				return Result.err(result.unwrapErr());
+			}
+			values[key] = result.unwrap();
+		}
+		return Result.ok(
+			Array.isArray(results) ? entries.map(([key]) => values[key]) : values,
+		);
+	}
+
+	/**
+	 * Returns the first `Ok` in a tuple or array of `Result`s.
+	 * If every input is `Err`, returns `Err` with all the errors in input order.
+	 * @param results The results to search.
+	 * @returns The first `Ok` value, or every error.
+	 */
+	public static any<R extends readonly Result<unknown, unknown>[] | []>(
+		results: R,
+	): Result<InferOk<R[number]>, { -readonly [K in keyof R]: InferErr<R[K]> }>;
+	public static any(
+		results: readonly Result<unknown, unknown>[],
+	): Result<unknown, unknown[]> {
+		const errors: unknown[] = [];
+		for (const result of results) {
+			if (result.isOk()) {
+				return Result.ok(result.unwrap());
+			}
+			errors.push(result.unwrapErr());
+		}
+		return Result.err(errors);
+	}
+
+	/**
+	 * Combines a tuple, array or record of `Result`s into a single `Result`,
+	 * in the style of `Promise.allSettled`.
+	 * If every input is `Ok`, returns `Ok` with the values in the same shape as the input.
+	 * Otherwise, returns `Err` with every error in input order, not only the first one.
+	 * @param results The results to combine.
+	 * @returns A `Result` of all the values, or all the errors.
+	 */
+	public static combine<R extends readonly Result<unknown, unknown>[] | []>(
+		results: R,
+	): Result<{ -readonly [K in keyof R]: InferOk<R[K]> }, InferErr<R[number]>[]>;
+	public static combine<R extends Record<string, Result<unknown, unknown>>>(
+		results: R,
+	): Result<{ [K in keyof R]: InferOk<R[K]> }, InferErr<R[keyof R]>[]>;
+	public static combine(
+		results:
+			| readonly Result<unknown, unknown>[]
+			| Record<string, Result<unknown, unknown>>,
+	): Result<unknown, unknown[]> {
+		const entries = Object.entries(results);
+		const values: Record<string, unknown> = {};
+		const errors: unknown[] = [];
+		for (const [key, result] of entries) {
+			if (result.isErr()) {
+				errors.push(result.unwrapErr());
+			} else {
+				values[key] = result.unwrap();
+			}
+		}
+		if (errors.length > 0) {
+			return Result.err(errors);
+		}
+		return Result.ok(
+			Array.isArray(results) ? entries.map(([key]) => values[key]) : values,
+		);
+	}
+
+	/**
+	 * Decodes a `Result` from its wire format.
+	 * Accepts a JSON string or an already parsed value; nested `Option`s and `Result`s are rebuilt too.
+	 * The contained value and error themselves are not validated against `T` and `E`.
+	 * @param input A JSON string or a parsed wire-format value.
+	 * @returns `Ok` of the decoded result, or `Err` if the input is malformed.
+	 */
+	public static fromJSON<T = unknown, E = unknown>(
+		input: unknown,
+	): Result<Result<T, E>, DecodeError> {
+		return decode(input).flatMap((value) =>
+			value instanceof Result
+				? Result.ok(value as Result<T, E>)
+				: Result.err(
+						new DecodeError({
+							input,
+							message: "Expected a Result in wire format",
+						}),
+					),
+		);
+	}
+
+	/**
+	 * Runs a generator-based computation in which `yield* result.bind()` unwraps a `Result`,
+	 * emulating Rust's `?` operator.
+	 * Binding an `Ok` evaluates to its value; binding an `Err` short-circuits the
+	 * computation and returns that `Err`. The error type is the union of every bound error type.
+	 * @param body A generator function that yields `Result`s and returns the final value.
+	 * @returns `Ok` of the returned value, or the first `Err` yielded.
+	 */
+	public static gen<Y extends Err<never, unknown>, T>(
+		body: () => Generator<Y, T, unknown>,
+	): Result<T, InferErr<Y>> {
+		const iterator = body();
+		const step = iterator.next();
+		if (step.done) {
+			return Result.ok(step.value);
+		}
+		iterator.return(undefined as never);
+		return Result.err(step.value.unwrapErr() as InferErr<Y>);
+	}
+
+	/**
+	 * Async variant of `Result.gen`, accepting an async generator function.
+	 * Inside the body, `yield* x.bind()` unwraps both `Result`s and `AsyncResult`s.
+	 * @param body An async generator function that yields `Result`s and returns the final value.
+	 * @returns An `AsyncResult` of the returned value, or the first `Err` yielded.
+	 */
+	public static genAsync<Y extends Err<never, unknown>, T>(
+		body: () => AsyncGenerator<Y, T, unknown>,
+	): AsyncResult<T, InferErr<Y>> {
+		return new AsyncResult(
+			(async () => {
+				const iterator = body();
+				const step = await iterator.next();
+				if (step.done) {
+					return Result.ok<T, InferErr<Y>>(step.value);
+				}
+				await iterator.return(undefined as never);
+				return Result.err<T, InferErr<Y>>(
+					step.value.unwrapErr() as InferErr<Y>,
+				);
+			})(),
+		);
+	}
+
 	/**
 	 * Returns `true` if the result is `Ok`.
 	 */
@@ -106,14 +386,6 @@ export abstract class Result<T, E> {
 	 */
 	public abstract map<U>(f: (value: T) => U): Result<U, E>;
 
-	/**
-	 * Maps a `Result<T, E>` to `Result<T, F>` by applying a function to a contained `Err` value,
-	 * leaving an `Ok` value untouched.
-	 * @param f The function to apply to the error if it's `Err`.
-	 * @returns A `Result<T, F>`.
-	 */
-	public abstract mapErr<F>(f: (error: E) => F): Result<T, F>;
-
 	/**
 	 * Returns `Err` if the result is `Err`, otherwise calls `f` with the wrapped value
 	 * and returns the result.
@@ -144,6 +416,178 @@ export abstract class Result<T, E> {
 	 * @returns The contained value or the default value.
 	 */
 	public abstract unwrapOr(defaultValue: T): T;
+
+	/**
+	 * Returns the contained `Ok` value or computes it from the error.
+	 * @param f The function to compute the value from the error if the result is `Err`.
+	 * @returns The contained value or the computed value.
+	 */
+	public abstract unwrapOrElse(f: (error: E) => T): T;
+
+	/**
+	 * Returns the contained `Ok` value, or throws an error with the given message if the result is `Err`.
+	 * @param message The error message to throw if the result is `Err`.
+	 * @returns The contained value.
+	 * @throws {Error} If the result is `Err`.
+	 */
+	public abstract expect(message: string): T;
+
+	/**
+	 * Returns the contained `Err` value, or throws an error with the given message if the result is `Ok`.
+	 * @param message The error message to throw if the result is `Ok`.
+	 * @returns The contained error.
+	 * @throws {Error} If the result is `Ok`.
+	 */
+	public abstract expectErr(message: string): E;
+
+	/**
+	 * Returns `res` if the result is `Ok`, otherwise returns the `Err` value of this result.
+	 * @param res The result to return if this result is `Ok`.
+	 * @returns A `Result<U, E>`.
+	 */
+	public abstract and<U>(res: Result<U, E>): Result<U, E>;
+
+	/**
+	 * Returns `Err` if the result is `Err`, otherwise calls `f` with the wrapped value
+	 * and returns the result. Alias of `flatMap`.
+	 * @param f The function to apply to the value if it's `Ok`.
+	 * @returns A `Result<U, E>`.
+	 */
+	public abstract andThen<U>(f: (value: T) => Result<U, E>): Result<U, E>;
+
+	/**
+	 * Returns `res` if the result is `Err`, otherwise returns the `Ok` value of this result.
+	 * @param res The result to return if this result is `Err`.
+	 * @returns A `Result<T, F>`.
+	 */
+	public abstract or<F>(res: Result<T, F>): Result<T, F>;
+
+	/**
+	 * Calls `f` with the contained value if the result is `Ok`, and returns the result untouched.
+	 * @param f The function to call with the value.
+	 * @returns The original result.
+	 */
+	public abstract inspect(f: (value: T) => void): Result<T, E>;
+
+	/**
+	 * Calls `f` with the contained error if the result is `Err`, and returns the result untouched.
+	 * @param f The function to call with the error.
+	 * @returns The original result.
+	 */
+	public abstract inspectErr(f: (error: E) => void): Result<T, E>;
+
+	/**
+	 * Returns `true` if the result is `Ok` and the value matches a predicate.
+	 * @param f The predicate to apply to the value.
+	 */
+	public abstract isOkAnd(f: (value: T) => boolean): boolean;
+
+	/**
+	 * Returns `true` if the result is `Err` and the error matches a predicate.
+	 * @param f The predicate to apply to the error.
+	 */
+	public abstract isErrAnd(f: (error: E) => boolean): boolean;
+
+	/**
+	 * Converts a `Result<Result<U, E>, E>` into a `Result<U, E>`.
+	 * @returns The inner result if this result is `Ok`, otherwise this `Err`.
+	 */
+	public abstract flatten<U>(this: Result<Result<U, E>, E>): Result<U, E>;
+
+	/**
+	 * Transposes a `Result` of an `Option` into an `Option` of a `Result`.
+	 * `Ok(None)` becomes `None`, `Ok(Some(v))` becomes `Some(Ok(v))` and `Err(e)` becomes `Some(Err(e))`.
+	 * @returns An `Option<Result<U, E>>`.
+	 */
+	public abstract transpose<U>(
+		this: Result<Option<U>, E>,
+	): Option<Result<U, E>>;
+
+	/**
+	 * Returns an iterator over the contained `Ok` value.
+	 * @returns An `Iter` that yields one item if the result is `Ok`, and none otherwise.
+	 */
+	public abstract iter(): Iter<T>;
+
+	/**
+	 * Returns the provided default if the result is `Err`, otherwise applies a function
+	 * to the contained value.
+	 * @param defaultValue The value to return if the result is `Err`.
+	 * @param f The function to apply to the value if it's `Ok`.
+	 * @returns The mapped value or the default value.
+	 */
+	public abstract mapOr<U>(defaultValue: U, f: (value: T) => U): U;
+
+	/**
+	 * Computes a default from the error if the result is `Err`, otherwise applies a function
+	 * to the contained value.
+	 * @param defaultF The function to apply to the error if it's `Err`.
+	 * @param f The function to apply to the value if it's `Ok`.
+	 * @returns The mapped value or the computed default.
+	 */
+	public abstract mapOrElse<U>(
+		defaultF: (error: E) => U,
+		f: (value: T) => U,
+	): U;
+
+	/**
+	 * Wraps a contained `Err` value in a `ContextError` describing what was being done,
+	 * keeping the original error as its `cause`. An `Ok` value is left untouched.
+	 * @param message The context message.
+	 * @returns A `Result<T, ContextError<E>>`.
+	 */
+	public abstract context(message: string): Result<T, ContextError<E>>;
+
+	/**
+	 * Like `context`, but the message is only computed if the result is `Err`.
+	 * @param f A function producing the context message.
+	 * @returns A `Result<T, ContextError<E>>`.
+	 */
+	public abstract withContext(f: () => string): Result<T, ContextError<E>>;
+
+	/**
+	 * Recovers from a single tagged variant of the error union.
+	 * If the result is `Err` and its error has the given `_tag`, returns the result of `handler`.
+	 * Otherwise, returns the result untouched. The handled variant is removed from the error type.
+	 * @param tag The `_tag` of the error variant to recover from.
+	 * @param handler The function to apply to the matching error.
+	 * @returns A `Result` whose error type no longer contains the handled variant.
+	 */
+	public abstract catchTag<K extends TagOf<E>, U, F = never>(
+		tag: K,
+		handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>,
+	): Result<T | U, Exclude<E, { readonly _tag: K }> | F>;
+
+	/**
+	 * Recovers from several tagged variants of the error union at once.
+	 * Each handler is keyed by the `_tag` it recovers from; the handled variants are removed
+	 * from the error type.
+	 * @param handlers An object mapping tags to recovery functions.
+	 * @returns A `Result` whose error type no longer contains the handled variants.
+	 */
+	public abstract catchTags<H extends TagHandlers<E>>(
+		handlers: H,
+	): Result<
+		T | InferOk<HandlerResult<H>>,
+		Exclude<E, { readonly _tag: keyof H }> | InferErr<HandlerResult<H>>
+	>;
+
+	/**
+	 * Converts the result into its wire format. Called by `JSON.stringify`.
+	 * @returns `{"$ok": value}` or `{"$err": error}`.
+	 */
+	public abstract toJSON(): ResultJSON<T, E>;
+
+	/**
+	 * Unwraps the result inside `Result.gen`: `const value = yield* result.bind();`.
+	 * An `Ok` returns its value without yielding; an `Err` yields itself.
+	 */
+	public abstract bind(): Generator<Err<never, E>, T, unknown>;
+
+	/**
+	 * Iterates over the `Ok` value: an `Ok` yields it once, an `Err` yields nothing.
+	 */
+	public abstract [Symbol.iterator](): Iterator<T>;
 }
 
 /**
@@ -185,6 +629,116 @@ export class Ok<T, E> extends Result<T, E> {
 	public unwrapOr(_defaultValue: T): T {
 		return this.value;
 	}
+
+	public unwrapOrElse(_f: (error: E) => T): T {
+		return this.value;
+	}
+
+	public expect(_message: string): T {
+		return this.value;
+	}
+
+	public expectErr(message: string): E {
+		throw new Error(message);
+	}
+
+	public and<U>(res: Result<U, E>): Result<U, E> {
+		return res;
+	}
+
+	public andThen<U>(f: (value: T) => Result<U, E>): Result<U, E> {
+		return f(this.value);
+	}
+
+	public or<F>(_res: Result<T, F>): Result<T, F> {
+		return Result.ok(this.value);
+	}
+
+	public orElse<F>(_f: (error: E) => Result<T, F>): Result<T, F> {
+		return Result.ok(this.value);
+	}
+
+	public inspect(f: (value: T) => void): Result<T, E> {
+		f(this.value);
+		return this;
+	}
+
+	public inspectErr(_f: (error: E) => void): Result<T, E> {
+		return this;
+	}
+
+	public isOkAnd(f: (value: T) => boolean): boolean {
+		return f(this.value);
+	}
+
+	public isErrAnd(_f: (error: E) => boolean): boolean {
+		return false;
+	}
+
+	public ok(): Option<T> {
+		return Option.some(this.value);
+	}
+
+	public err(): Option<E> {
+		return Option.none();
+	}
+
+	public flatten<U>(this: Result<Result<U, E>, E>): Result<U, E> {
+		return this.unwrap();
+	}
+
+	public transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+		return this.unwrap().map((value) => Result.ok(value));
+	}
+
+	public iter(): Iter<T> {
+		return Iter.from([this.value]);
+	}
+
+	public mapOr<U>(_defaultValue: U, f: (value: T) => U): U {
+		return f(this.value);
+	}
+
+	public mapOrElse<U>(_defaultF: (error: E) => U, f: (value: T) => U): U {
+		return f(this.value);
+	}
+
+	public context(_message: string): Result<T, ContextError<E>> {
+		return Result.ok(this.value);
+	}
+
+	public withContext(_f: () => string): Result<T, ContextError<E>> {
+		return Result.ok(this.value);
+	}
+
+	public catchTag<K extends TagOf<E>, U, F = never>(
+		_tag: K,
+		_handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>,
+	): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+		return Result.ok(this.value);
+	}
+
+	public catchTags<H extends TagHandlers<E>>(
+		_handlers: H,
+	): Result<
+		T | InferOk<HandlerResult<H>>,
+		Exclude<E, { readonly _tag: keyof H }> | InferErr<HandlerResult<H>>
+	> {
+		return Result.ok(this.value);
+	}
+
+	public toJSON(): ResultJSON<T, E> {
+		return { $ok: toWire(this.value) as WireValue<T> };
+	}
+
+	// biome-ignore lint/correctness/useYield: an Ok never short-circuits, so it only returns its value.
+	public *bind(): Generator<Err<never, E>, T, unknown> {
+		return this.value;
+	}
+
+	public *[Symbol.iterator](): Iterator<T> {
+		yield this.value;
+	}
 }
 
 /**
@@ -226,4 +780,122 @@ export class Err<T, E> extends Result<T, E> {
 	public unwrapOr(defaultValue: T): T {
 		return defaultValue;
 	}
+
+	public unwrapOrElse(f: (error: E) => T): T {
+		return f(this.error);
+	}
+
+	public expect(message: string): T {
+		throw new Error(message);
+	}
+
+	public expectErr(_message: string): E {
+		return this.error;
+	}
+
+	public and<U>(_res: Result<U, E>): Result<U, E> {
+		return Result.err(this.error);
+	}
+
+	public andThen<U>(_f: (value: T) => Result<U, E>): Result<U, E> {
+		return Result.err(this.error);
+	}
+
+	public or<F>(res: Result<T, F>): Result<T, F> {
+		return res;
+	}
+
+	public orElse<F>(f: (error: E) => Result<T, F>): Result<T, F> {
+		return f(this.error);
+	}
+
+	public inspect(_f: (value: T) => void): Result<T, E> {
+		return this;
+	}
+
+	public inspectErr(f: (error: E) => void): Result<T, E> {
+		f(this.error);
+		return this;
+	}
+
+	public isOkAnd(_f: (value: T) => boolean): boolean {
+		return false;
+	}
+
+	public isErrAnd(f: (error: E) => boolean): boolean {
+		return f(this.error);
+	}
+
+	public ok(): Option<T> {
+		return Option.none();
+	}
+
+	public err(): Option<E> {
+		return Option.some(this.error);
+	}
+
+	public flatten<U>(this: Result<Result<U, E>, E>): Result<U, E> {
+		return Result.err(this.unwrapErr());
+	}
+
+	public transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+		return Option.some(Result.err(this.unwrapErr()));
+	}
+
+	public iter(): Iter<T> {
+		return Iter.from([]);
+	}
+
+	public mapOr<U>(defaultValue: U, _f: (value: T) => U): U {
+		return defaultValue;
+	}
+
+	public mapOrElse<U>(defaultF: (error: E) => U, _f: (value: T) => U): U {
+		return defaultF(this.error);
+	}
+
+	public context(message: string): Result<T, ContextError<E>> {
+		return Result.err(new ContextError(message, this.error));
+	}
+
+	public withContext(f: () => string): Result<T, ContextError<E>> {
+		return Result.err(new ContextError(f(), this.error));
+	}
+
+	public catchTag<K extends TagOf<E>, U, F = never>(
+		tag: K,
+		handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>,
+	): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+		if (hasTag(this.error, tag)) {
+			return handler(this.error as Extract<E, { readonly _tag: K }>);
+		}
+		return Result.err(this.error as Exclude<E, { readonly _tag: K }>);
+	}
+
+	public catchTags<H extends TagHandlers<E>>(
+		handlers: H,
+	): Result<
+		T | InferOk<HandlerResult<H>>,
+		Exclude<E, { readonly _tag: keyof H }> | InferErr<HandlerResult<H>>
+	> {
+		for (const [tag, handler] of Object.entries(handlers)) {
+			if (handler && hasTag(this.error, tag)) {
+				return (handler as (error: E) => Result<never, never>)(this.error);
+			}
+		}
+		return Result.err(this.error as Exclude<E, { readonly _tag: keyof H }>);
+	}
+
+	public toJSON(): ResultJSON<T, E> {
+		return { $err: toWire(this.error) as WireValue<E> };
+	}
+
+	public *bind(): Generator<Err<never, E>, T, unknown> {
+		yield new Err<never, E>(this.error);
+		throw new Error("Cannot resume a Result generator after an Err");
+	}
+
+	public [Symbol.iterator](): Iterator<T> {
+		return ([] as T[])[Symbol.iterator]();
+	}
 }
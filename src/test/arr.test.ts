@@ -0,0 +1,93 @@
+import { test, expect, describe, expectTypeOf } from "vitest";
+import * as array from "../array";
+import { Arr } from "../array";
+import {
+	installArrayExtensions,
+	uninstallArrayExtensions,
+} from "../array-extensions";
+import * as root from "../index";
+
+describe("Arr", () => {
+	test("sums and multiplies arrays of numbers", () => {
+		expect(Arr.sum([1, 2, 3, 4])).toBe(10);
+		expect(Arr.product([2, 3, 4])).toBe(24);
+		expect(Arr.sum([])).toBe(0);
+		expect(Arr.product([])).toBe(1);
+	});
+
+	test("sums and multiplies objects by a numeric key", () => {
+		const items = [
+			{ price: 2, name: "a" },
+			{ price: 5, name: "b" },
+		] as const;
+		expect(Arr.sum(items, "price")).toBe(7);
+		expect(Arr.product(items, "price")).toBe(10);
+	});
+
+	test("only accepts numeric keys", () => {
+		const items = [{ value: 1, name: "a" }];
+		expectTypeOf(Arr.sum<{ value: number; name: string }, "value">)
+			.parameter(1)
+			.toEqualTypeOf<"value">();
+		// @ts-expect-error `name` is not a numeric key
+		expect(() => Arr.sum(items, "name")).toThrow(TypeError);
+	});
+
+	test("reports the index of an invalid element", () => {
+		const invalid = [1, 2, "three"] as unknown as number[];
+		expect(() => Arr.sum(invalid)).toThrow(
+			"Arr.sum() requires all elements to be numbers when no key is provided. Got string at index 2",
+		);
+		const items = [{ value: 1 }, { other: 2 }] as unknown as {
+			value: number;
+		}[];
+		expect(() => Arr.product(items, "value")).toThrow(
+			"Arr.product() requires all elements to have a numeric property 'value'. Element at index 1 is invalid.",
+		);
+	});
+});
+
+describe("array extensions", () => {
+	test("importing the package root does not touch Array.prototype", () => {
+		expect(root.Arr).toBe(Arr);
+		expect(Object.keys(array)).toEqual(["Arr"]);
+		expect("sum" in Array.prototype).toBe(false);
+		expect("product" in Array.prototype).toBe(false);
+	});
+
+	test("installArrayExtensions adds non-enumerable methods until uninstalled", () => {
+		installArrayExtensions();
+		installArrayExtensions();
+		try {
+			expect([1, 2, 3].sum()).toBe(6);
+			expect([{ n: 2 }, { n: 3 }].product("n")).toBe(6);
+			const keys: string[] = [];
+			for (const key in [1]) {
+				keys.push(key);
+			}
+			expect(keys).toEqual(["0"]);
+		} finally {
+			uninstallArrayExtensions();
+		}
+		expect("sum" in Array.prototype).toBe(false);
+		expect("product" in Array.prototype).toBe(false);
+		uninstallArrayExtensions();
+	});
+
+	test("uninstallArrayExtensions restores methods that were replaced", () => {
+		const own = () => -1;
+		Object.defineProperty(Array.prototype, "sum", {
+			value: own,
+			writable: true,
+			configurable: true,
+		});
+		try {
+			installArrayExtensions();
+			expect([1, 2].sum()).toBe(3);
+			uninstallArrayExtensions();
+			expect(Array.prototype.sum).toBe(own);
+		} finally {
+			delete (Array.prototype as unknown as Record<string, unknown>).sum;
+		}
+	});
+});
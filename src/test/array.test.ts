@@ -1,5 +1,11 @@
-import { test, expect, describe } from "vitest";
-import "../array";
+import { test, expect, describe, beforeAll, afterAll } from "vitest";
+import {
+	installArrayExtensions,
+	uninstallArrayExtensions,
+} from "../array-extensions";
+
+beforeAll(installArrayExtensions);
+afterAll(uninstallArrayExtensions);
 
 describe("Array.prototype.sum", () => {
 	test("sums an array of numbers", () => {
@@ -0,0 +1,183 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { AsyncIter } from "../async-iter";
+import { Option } from "../option";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function* source<T>(items: T[], pulled: T[] = []): AsyncGenerator<T> {
+	for (const item of items) {
+		await sleep(0);
+		pulled.push(item);
+		yield item;
+	}
+}
+
+test("AsyncIter.from accepts async and sync iterables", async () => {
+	expect(await AsyncIter.from(source([1, 2, 3])).collect()).toEqual([1, 2, 3]);
+	expect(await AsyncIter.from([1, 2, 3]).collect()).toEqual([1, 2, 3]);
+});
+
+test("AsyncIter is usable with for await", async () => {
+	const items: number[] = [];
+	for await (const item of AsyncIter.from([1, 2])) {
+		items.push(item);
+	}
+	expect(items).toEqual([1, 2]);
+});
+
+test("AsyncIter.map accepts sync and async callbacks", async () => {
+	const mapped = AsyncIter.from([1, 2])
+		.map((x) => x * 2)
+		.map(async (x) => `${x}`);
+	expectTypeOf(mapped).toEqualTypeOf<AsyncIter<string>>();
+	expect(await mapped.collect()).toEqual(["2", "4"]);
+});
+
+test("AsyncIter.filter and filterMap", async () => {
+	expect(
+		await AsyncIter.from([1, 2, 3, 4])
+			.filter(async (x) => x % 2 === 0)
+			.collect(),
+	).toEqual([2, 4]);
+	expect(
+		await AsyncIter.from([1, 2, 3, 4])
+			.filterMap((x) => (x % 2 === 0 ? x * 10 : undefined))
+			.collect(),
+	).toEqual([20, 40]);
+	expect(
+		await AsyncIter.from([1, 2, 3, 4])
+			.filterMap(async (x) => (x > 2 ? Option.some(x) : Option.none()))
+			.collect(),
+	).toEqual([3, 4]);
+});
+
+test("AsyncIter.take does not pull past the last taken element", async () => {
+	const pulled: number[] = [];
+	expect(
+		await AsyncIter.from(source([1, 2, 3, 4], pulled)).take(2).collect(),
+	).toEqual([1, 2]);
+	expect(pulled).toEqual([1, 2]);
+	expect(await AsyncIter.from(source([1, 2], pulled)).take(0).collect()).toEqual(
+		[],
+	);
+});
+
+test("AsyncIter.take(0) closes a source that was already started", async () => {
+	const log: string[] = [];
+	async function* started() {
+		try {
+			yield 1;
+			yield 2;
+		} finally {
+			log.push("closed");
+		}
+	}
+	const generator = started();
+	await generator.next();
+	expect(
+		await AsyncIter.from(generator)
+			.map((x) => x * 2)
+			.take(0)
+			.collect(),
+	).toEqual([]);
+	expect(log).toEqual(["closed"]);
+});
+
+test("AsyncIter.skip, enumerate and chain", async () => {
+	expect(await AsyncIter.from([1, 2, 3]).skip(1).collect()).toEqual([2, 3]);
+	expect(await AsyncIter.from(["a", "b"]).enumerate().collect()).toEqual([
+		[0, "a"],
+		[1, "b"],
+	]);
+	expect(
+		await AsyncIter.from([1, 2])
+			.chain(source([3]))
+			.chain([4])
+			.collect(),
+	).toEqual([1, 2, 3, 4]);
+});
+
+test("AsyncIter.zip stops at the shorter side", async () => {
+	const zipped = AsyncIter.from(source([1, 2, 3])).zip(["a", "b"]);
+	expectTypeOf(zipped).toEqualTypeOf<AsyncIter<[number, string]>>();
+	expect(await zipped.collect()).toEqual([
+		[1, "a"],
+		[2, "b"],
+	]);
+});
+
+test("AsyncIter.fold accumulates with async callbacks", async () => {
+	expect(
+		await AsyncIter.from([1, 2, 3]).fold(0, async (acc, x) => acc + x),
+	).toBe(6);
+});
+
+test("AsyncIter.mapConcurrent keeps input order and respects the limit", async () => {
+	let active = 0;
+	let peak = 0;
+	const result = await AsyncIter.from([30, 10, 20, 5, 15])
+		.mapConcurrent(
+			async (ms) => {
+				active++;
+				peak = Math.max(peak, active);
+				await sleep(ms);
+				active--;
+				return ms;
+			},
+			{ concurrency: 2 },
+		)
+		.collect();
+	expect(result).toEqual([30, 10, 20, 5, 15]);
+	expect(peak).toBe(2);
+});
+
+test("AsyncIter.mapConcurrent yields in completion order when unordered", async () => {
+	const result = await AsyncIter.from([30, 1, 15])
+		.mapConcurrent(
+			async (ms) => {
+				await sleep(ms);
+				return ms;
+			},
+			{ concurrency: 3, ordered: false },
+		)
+		.collect();
+	expect(result).toEqual([1, 15, 30]);
+});
+
+test("AsyncIter.mapConcurrent rejects with the first failure", async () => {
+	const iter = AsyncIter.from([1, 2, 3]).mapConcurrent(
+		async (x) => {
+			if (x === 2) throw new Error("boom");
+			return x;
+		},
+		{ concurrency: 2 },
+	);
+	await expect(iter.collect()).rejects.toThrow("boom");
+});
+
+test("AsyncIter.mapConcurrent stops pulling when the consumer stops", async () => {
+	const pulled: number[] = [];
+	const result = await AsyncIter.from(source([1, 2, 3, 4, 5, 6], pulled))
+		.mapConcurrent((x) => x, { concurrency: 2 })
+		.take(1)
+		.collect();
+	expect(result).toEqual([1]);
+	expect(pulled.length).toBeLessThanOrEqual(3);
+});
+
+test("AsyncIter.mapConcurrent rejects an invalid concurrency", () => {
+	expect(() =>
+		AsyncIter.from([1]).mapConcurrent((x) => x, { concurrency: 0 }),
+	).toThrow(RangeError);
+});
+
+test("AsyncIter.buffer reads ahead of the consumer", async () => {
+	const pulled: number[] = [];
+	const buffered = AsyncIter.from(source([1, 2, 3, 4, 5], pulled)).buffer(3);
+	expect(pulled).toEqual([]);
+	expect((await buffered.next()).value).toBe(1);
+	await sleep(10);
+	expect(pulled).toEqual([1, 2, 3]);
+	expect(await buffered.collect()).toEqual([2, 3, 4, 5]);
+	expect(() => AsyncIter.from([1]).buffer(0)).toThrow(RangeError);
+});
@@ -0,0 +1,141 @@
+import { test, expect } from "vitest";
+import { AsyncOption } from "../async-option";
+import { Option } from "../option";
+
+test("AsyncOption.some resolves to Some", async () => {
+	const option = await AsyncOption.some(5);
+	expect(option.unwrap()).toBe(5);
+});
+
+test("AsyncOption.none resolves to None", async () => {
+	expect((await AsyncOption.none()).isNone()).toBe(true);
+});
+
+test("AsyncOption.fromOption lifts a sync Option", async () => {
+	expect((await AsyncOption.fromOption(Option.some(5))).unwrap()).toBe(5);
+});
+
+test("AsyncOption.fromPromise returns Some for a value", async () => {
+	const option = await AsyncOption.fromPromise(Promise.resolve(5));
+	expect(option.unwrap()).toBe(5);
+});
+
+test("AsyncOption.fromPromise returns None for null, undefined or rejection", async () => {
+	expect(await AsyncOption.fromPromise(Promise.resolve(null)).isNone()).toBe(
+		true,
+	);
+	expect(
+		await AsyncOption.fromPromise(Promise.resolve(undefined)).isNone(),
+	).toBe(true);
+	expect(
+		await AsyncOption.fromPromise(Promise.reject(new Error("Boom"))).isNone(),
+	).toBe(true);
+});
+
+test("AsyncOption.fromPromise keeps falsy values", async () => {
+	expect(await AsyncOption.fromPromise(Promise.resolve(0)).unwrap()).toBe(0);
+});
+
+test("AsyncOption isSome and isNone resolve to booleans", async () => {
+	expect(await AsyncOption.some(5).isSome()).toBe(true);
+	expect(await AsyncOption.some(5).isNone()).toBe(false);
+	expect(await AsyncOption.none().isNone()).toBe(true);
+});
+
+test("AsyncOption map accepts sync and async callbacks", async () => {
+	const option = await AsyncOption.some(5)
+		.map((x) => x * 2)
+		.map(async (x) => x + 1);
+	expect(option.unwrap()).toBe(11);
+});
+
+test("AsyncOption map does not call the function for None", async () => {
+	let called = false;
+	const option = await AsyncOption.fromPromise<number>(
+		Promise.resolve(null),
+	).map((x) => {
+		called = true;
+		return x;
+	});
+	expect(option.isNone()).toBe(true);
+	expect(called).toBe(false);
+});
+
+test("AsyncOption flatMap chains Options, promises and AsyncOptions", async () => {
+	const option = await AsyncOption.some(5)
+		.flatMap((x) => Option.some(x * 2))
+		.flatMap(async (x) => Option.some(x + 1))
+		.flatMap((x) => AsyncOption.some(x * 10));
+	expect(option.unwrap()).toBe(110);
+});
+
+test("AsyncOption flatMap propagates None", async () => {
+	const option = await AsyncOption.some(5)
+		.flatMap(() => AsyncOption.none())
+		.map((x) => x);
+	expect(option.isNone()).toBe(true);
+});
+
+test("AsyncOption filter accepts async predicates", async () => {
+	expect(
+		await AsyncOption.some(5)
+			.filter(async (x) => x > 0)
+			.unwrap(),
+	).toBe(5);
+	expect(
+		await AsyncOption.some(5)
+			.filter((x) => x < 0)
+			.isNone(),
+	).toBe(true);
+});
+
+test("AsyncOption okOr converts to AsyncResult", async () => {
+	expect(await AsyncOption.some(5).okOr("missing").unwrap()).toBe(5);
+	expect(await AsyncOption.none().okOr("missing").unwrapErr()).toBe("missing");
+});
+
+test("AsyncOption okOrElse only computes the error for None", async () => {
+	let calls = 0;
+	const error = async () => {
+		calls++;
+		return "missing";
+	};
+	expect(await AsyncOption.some(5).okOrElse(error).unwrap()).toBe(5);
+	expect(calls).toBe(0);
+	expect(await AsyncOption.none().okOrElse(error).unwrapErr()).toBe("missing");
+	expect(calls).toBe(1);
+});
+
+test("AsyncOption unwrap, unwrapOr and match", async () => {
+	await expect(AsyncOption.none().unwrap()).rejects.toThrow(
+		"Called unwrap on a None value",
+	);
+	expect(await AsyncOption.none().unwrapOr(10)).toBe(10);
+	expect(
+		await AsyncOption.some(5).match(
+			(x) => x * 2,
+			() => 0,
+		),
+	).toBe(10);
+	expect(
+		await AsyncOption.none().match(
+			() => 1,
+			async () => 0,
+		),
+	).toBe(0);
+});
+
+test("Option.genAsync unwraps AsyncOptions", async () => {
+	const findUser = (id: number) =>
+		AsyncOption.fromPromise(Promise.resolve(id === 1 ? "Alice" : null));
+	const found = Option.genAsync(async function* () {
+		const name = yield* findUser(1).bind();
+		return name.toUpperCase();
+	});
+	const missing = Option.genAsync(async function* () {
+		return yield* findUser(2).bind();
+	});
+	expect(found).toBeInstanceOf(AsyncOption);
+	expect(await found.unwrap()).toBe("ALICE");
+	expect(await missing.isNone()).toBe(true);
+});
@@ -0,0 +1,140 @@
+import { test, expect } from "vitest";
+import { AsyncResult } from "../async-result";
+import { Result } from "../result";
+
+test("AsyncResult.ok resolves to Ok", async () => {
+	const result = await AsyncResult.ok(5);
+	expect(result.isOk()).toBe(true);
+	expect(result.unwrap()).toBe(5);
+});
+
+test("AsyncResult.err resolves to Err", async () => {
+	const result = await AsyncResult.err("Error");
+	expect(result.isErr()).toBe(true);
+	expect(result.unwrapErr()).toBe("Error");
+});
+
+test("AsyncResult.fromResult lifts a sync Result", async () => {
+	const result = await AsyncResult.fromResult(Result.ok(5));
+	expect(result.unwrap()).toBe(5);
+});
+
+test("AsyncResult.fromPromise returns Ok on resolve", async () => {
+	const result = await AsyncResult.fromPromise(
+		Promise.resolve(5),
+		(e: unknown) => (e as Error).message,
+	);
+	expect(result.unwrap()).toBe(5);
+});
+
+test("AsyncResult.fromPromise returns Err on reject", async () => {
+	const result = await AsyncResult.fromPromise(
+		Promise.reject(new Error("Boom")),
+		(e: unknown) => (e as Error).message,
+	);
+	expect(result.unwrapErr()).toBe("Boom");
+});
+
+test("AsyncResult isOk and isErr resolve to booleans", async () => {
+	expect(await AsyncResult.ok(5).isOk()).toBe(true);
+	expect(await AsyncResult.ok(5).isErr()).toBe(false);
+	expect(await AsyncResult.err("Error").isErr()).toBe(true);
+});
+
+test("AsyncResult map accepts sync and async callbacks", async () => {
+	const result = await AsyncResult.ok<number, string>(5)
+		.map((x) => x * 2)
+		.map(async (x) => x + 1);
+	expect(result.unwrap()).toBe(11);
+});
+
+test("AsyncResult map does not transform Err", async () => {
+	let called = false;
+	const result = await AsyncResult.err<number, string>("Error").map((x) => {
+		called = true;
+		return x * 2;
+	});
+	expect(called).toBe(false);
+	expect(result.unwrapErr()).toBe("Error");
+});
+
+test("AsyncResult mapErr transforms Err value", async () => {
+	const result = await AsyncResult.err<number, Error>(
+		new Error("Original"),
+	).mapErr(async (e) => e.message);
+	expect(result.unwrapErr()).toBe("Original");
+});
+
+test("AsyncResult mapErr does not transform Ok", async () => {
+	const result = await AsyncResult.ok<number, Error>(5).mapErr(
+		(e) => e.message,
+	);
+	expect(result.unwrap()).toBe(5);
+});
+
+test("AsyncResult flatMap chains sync Results, promises and AsyncResults", async () => {
+	const result = await AsyncResult.ok<number, string>(5)
+		.flatMap((x) => Result.ok(x * 2))
+		.flatMap(async (x) => Result.ok(x + 1))
+		.flatMap((x) => AsyncResult.ok(x * 10));
+	expect(result.unwrap()).toBe(110);
+});
+
+test("AsyncResult flatMap propagates Err", async () => {
+	const result = await AsyncResult.ok<number, string>(5)
+		.flatMap(() => AsyncResult.err<number, string>("Error from flatMap"))
+		.map((x) => x * 2);
+	expect(result.unwrapErr()).toBe("Error from flatMap");
+});
+
+test("AsyncResult unwrap rejects on Err", async () => {
+	await expect(AsyncResult.err("Error").unwrap()).rejects.toThrow(
+		"Called unwrap on an Err value",
+	);
+	expect(await AsyncResult.ok(5).unwrap()).toBe(5);
+	expect(await AsyncResult.err("Error").unwrapErr()).toBe("Error");
+});
+
+test("AsyncResult unwrapOr returns value or fallback", async () => {
+	expect(await AsyncResult.ok(5).unwrapOr(10)).toBe(5);
+	expect(await AsyncResult.err<number, string>("Error").unwrapOr(10)).toBe(10);
+});
+
+test("AsyncResult match calls the appropriate branch", async () => {
+	const onOk = await AsyncResult.ok<number, string>(10).match(
+		(val) => val * 2,
+		(err) => err.length,
+	);
+	const onErr = await AsyncResult.err<number, string>("Error").match(
+		(val) => val * 2,
+		async (err) => err.length,
+	);
+	expect(onOk).toBe(20);
+	expect(onErr).toBe(5);
+});
+
+test("Result.fromAsyncThrowable returns Ok on success", async () => {
+	const fetchValue = Result.fromAsyncThrowable(
+		async (x: number) => x * 2,
+		(e: unknown) => (e as Error).message,
+	);
+	const result = await fetchValue(5);
+	expect(result.unwrap()).toBe(10);
+});
+
+test("Result.fromAsyncThrowable returns Err on rejection or sync throw", async () => {
+	const rejecting = Result.fromAsyncThrowable(
+		async () => {
+			throw new Error("Rejected");
+		},
+		(e: unknown) => (e as Error).message,
+	);
+	const throwing = Result.fromAsyncThrowable(
+		(): Promise<number> => {
+			throw new Error("Thrown");
+		},
+		(e: unknown) => (e as Error).message,
+	);
+	expect((await rejecting()).unwrapErr()).toBe("Rejected");
+	expect((await throwing()).unwrapErr()).toBe("Thrown");
+});
@@ -0,0 +1,133 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { ContextError, formatErrorChain, TaggedError } from "../error";
+import { Result } from "../result";
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+class Timeout extends TaggedError("Timeout")<{ ms: number }> {}
+class Unauthorized extends TaggedError("Unauthorized") {}
+
+type AppError = NotFound | Timeout | Unauthorized;
+
+test("TaggedError instances are Errors with a tag and fields", () => {
+	const error = new NotFound({ id: "42" });
+	expect(error).toBeInstanceOf(Error);
+	expect(error).toBeInstanceOf(NotFound);
+	expect(error._tag).toBe("NotFound");
+	expect(error.name).toBe("NotFound");
+	expect(error.message).toBe("NotFound");
+	expect(error.id).toBe("42");
+});
+
+test("TaggedError accepts a custom message and no arguments", () => {
+	expect(new Timeout({ ms: 10, message: "Took too long" }).message).toBe(
+		"Took too long",
+	);
+	expect(new Unauthorized()._tag).toBe("Unauthorized");
+});
+
+test("catchTag recovers from the matching variant", () => {
+	const result = Result.err<number, AppError>(new NotFound({ id: "42" }));
+	const recovered = result.catchTag("NotFound", (e) =>
+		Result.ok<number, never>(e.id.length),
+	);
+	expectTypeOf(recovered).toEqualTypeOf<
+		Result<number, Timeout | Unauthorized>
+	>();
+	expect(recovered.unwrap()).toBe(2);
+});
+
+test("catchTag leaves other variants untouched", () => {
+	const result = Result.err<number, AppError>(new Timeout({ ms: 10 }));
+	const recovered = result.catchTag("NotFound", () => Result.ok(0));
+	expect(recovered.unwrapErr()).toBeInstanceOf(Timeout);
+});
+
+test("catchTag does not call the handler for Ok", () => {
+	let called = false;
+	const result = Result.ok<number, AppError>(5).catchTag("NotFound", () => {
+		called = true;
+		return Result.ok(0);
+	});
+	expect(result.unwrap()).toBe(5);
+	expect(called).toBe(false);
+});
+
+test("catchTag can fail with a new error", () => {
+	const result = Result.err<number, AppError>(new Timeout({ ms: 10 }));
+	const mapped = result.catchTag("Timeout", (e) =>
+		Result.err<number, string>(`timed out after ${e.ms}ms`),
+	);
+	expectTypeOf(mapped).toEqualTypeOf<
+		Result<number, NotFound | Unauthorized | string>
+	>();
+	expect(mapped.unwrapErr()).toBe("timed out after 10ms");
+});
+
+test("catchTags handles several variants at once", () => {
+	const handle = (error: AppError) =>
+		Result.err<number, AppError>(error).catchTags({
+			NotFound: () => Result.ok<number, never>(0),
+			Timeout: (e) => Result.ok<number, never>(e.ms),
+		});
+	expectTypeOf(handle).returns.toEqualTypeOf<Result<number, Unauthorized>>();
+	expect(handle(new NotFound({ id: "1" })).unwrap()).toBe(0);
+	expect(handle(new Timeout({ ms: 10 })).unwrap()).toBe(10);
+	expect(handle(new Unauthorized()).unwrapErr()).toBeInstanceOf(Unauthorized);
+});
+
+test("catchTags ignores plain errors without a tag", () => {
+	const result = Result.err<number, string | NotFound>("plain").catchTags({
+		NotFound: () => Result.ok<number, never>(0),
+	});
+	expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+	expect(result.unwrapErr()).toBe("plain");
+});
+
+test("context wraps Err in a ContextError with the original as cause", () => {
+	const original = new Error("ENOENT");
+	const result = Result.err<number, Error>(original).context("reading file");
+	expectTypeOf(result).toEqualTypeOf<Result<number, ContextError<Error>>>();
+	const error = result.unwrapErr();
+	expect(error).toBeInstanceOf(ContextError);
+	expect(error).toBeInstanceOf(Error);
+	expect(error.message).toBe("reading file");
+	expect(error.cause).toBe(original);
+});
+
+test("context leaves Ok untouched", () => {
+	expect(Result.ok<number, Error>(5).context("reading file").unwrap()).toBe(5);
+});
+
+test("withContext only computes the message for Err", () => {
+	let calls = 0;
+	const message = () => {
+		calls++;
+		return "loading config";
+	};
+	expect(Result.ok<number, string>(5).withContext(message).unwrap()).toBe(5);
+	expect(calls).toBe(0);
+	const error = Result.err<number, string>("ENOENT")
+		.withContext(message)
+		.unwrapErr();
+	expect(error.message).toBe("loading config");
+	expect(error.cause).toBe("ENOENT");
+	expect(calls).toBe(1);
+});
+
+test("formatErrorChain prints every cause", () => {
+	const error = Result.err<number, Error>(new Error("ENOENT"))
+		.context("reading file")
+		.context("loading config")
+		.unwrapErr();
+	expect(formatErrorChain(error)).toBe(
+		"Error: loading config\n  caused by: reading file\n  caused by: ENOENT",
+	);
+});
+
+test("formatErrorChain handles non-Error values and cycles", () => {
+	expect(formatErrorChain("boom")).toBe("Error: boom");
+	const a = new ContextError<unknown>("a", undefined);
+	const b = new ContextError("b", a);
+	Object.assign(a, { cause: b });
+	expect(formatErrorChain(b)).toBe("Error: b\n  caused by: a");
+});
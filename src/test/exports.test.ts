@@ -0,0 +1,23 @@
+import { existsSync, readFileSync } from "node:fs";
+import { test, expect } from "vitest";
+import * as root from "../index";
+import { Iter, Peekable } from "../iter";
+
+const pkg = JSON.parse(
+	readFileSync(new URL("../../package.json", import.meta.url), "utf8"),
+) as { exports: Record<string, { types: string }> };
+
+test("every package subpath points at a source module", () => {
+	for (const [subpath, entry] of Object.entries(pkg.exports)) {
+		const source = entry.types
+			.replace("./dist/", "../")
+			.replace(/\.d\.ts$/, ".ts");
+		expect(existsSync(new URL(source, import.meta.url)), subpath).toBe(true);
+	}
+});
+
+test("Iter is reachable from its subpath and the package root", () => {
+	expect(pkg.exports["./iter"].types).toBe("./dist/iter/index.d.ts");
+	expect(root.Iter).toBe(Iter);
+	expect(root.Peekable).toBe(Peekable);
+});
@@ -0,0 +1,106 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { AsyncResult } from "../async-result";
+import { Option } from "../option";
+import { Result } from "../result";
+
+const parse = (input: string): Result<number, "ParseError"> => {
+	const value = Number(input);
+	return Number.isNaN(value) ? Result.err("ParseError") : Result.ok(value);
+};
+
+const load = (id: number): Result<string, "NotFound"> =>
+	id === 1 ? Result.ok("one") : Result.err("NotFound");
+
+test("Result.gen returns Ok when every step is Ok", () => {
+	const result = Result.gen(function* () {
+		const id = yield* parse("1").bind();
+		const name = yield* load(id).bind();
+		return `${id}:${name}`;
+	});
+	expectTypeOf(result).toEqualTypeOf<
+		Result<string, "ParseError" | "NotFound">
+	>();
+	expect(result.unwrap()).toBe("1:one");
+});
+
+test("Result.gen short-circuits on the first Err", () => {
+	let reached = false;
+	const result = Result.gen(function* () {
+		const id = yield* parse("2").bind();
+		const name = yield* load(id).bind();
+		reached = true;
+		return name;
+	});
+	expect(result.unwrapErr()).toBe("NotFound");
+	expect(reached).toBe(false);
+});
+
+test("Result.gen runs finally blocks when short-circuiting", () => {
+	let cleanedUp = false;
+	const result = Result.gen(function* () {
+		try {
+			return yield* parse("nope").bind();
+		} finally {
+			cleanedUp = true;
+		}
+	});
+	expect(result.unwrapErr()).toBe("ParseError");
+	expect(cleanedUp).toBe(true);
+});
+
+test("Result.genAsync unwraps Results and AsyncResults", async () => {
+	const fetchName = (id: number) =>
+		AsyncResult.fromResult<string, "NotFound">(load(id));
+	const result = Result.genAsync(async function* () {
+		const id = yield* parse("1").bind();
+		const name = yield* fetchName(id).bind();
+		return name.toUpperCase();
+	});
+	expectTypeOf(result).toEqualTypeOf<
+		AsyncResult<string, "ParseError" | "NotFound">
+	>();
+	expect((await result).unwrap()).toBe("ONE");
+});
+
+test("Result.genAsync short-circuits on Err", async () => {
+	const result = await Result.genAsync(async function* () {
+		const id = yield* parse("3").bind();
+		return yield* AsyncResult.fromResult(load(id)).bind();
+	});
+	expect(result.unwrapErr()).toBe("NotFound");
+});
+
+test("Option.gen returns Some when every step is Some", () => {
+	const result = Option.gen(function* () {
+		const a = yield* Option.some(2).bind();
+		const b = yield* Option.fromNullable<number>(3).bind();
+		return a * b;
+	});
+	expectTypeOf(result).toEqualTypeOf<Option<number>>();
+	expect(result.unwrap()).toBe(6);
+});
+
+test("Option.gen short-circuits on None", () => {
+	let reached = false;
+	const result = Option.gen(function* () {
+		const a = yield* Option.some(2).bind();
+		const b = yield* Option.fromNullable<number>(null).bind();
+		reached = true;
+		return a * b;
+	});
+	expect(result.isNone()).toBe(true);
+	expect(reached).toBe(false);
+});
+
+test("Option.genAsync accepts async generators", async () => {
+	const some = await Option.genAsync(async function* () {
+		const a = yield* Option.some(await Promise.resolve(2)).bind();
+		return a + 1;
+	});
+	const none = await Option.genAsync(async function* () {
+		const a = yield* Option.fromNullable<number>(undefined).bind();
+		return a + 1;
+	});
+	expect(some.unwrap()).toBe(3);
+	expect(none.isNone()).toBe(true);
+});
@@ -0,0 +1,180 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Iter } from "../iter";
+import { Option } from "../option";
+
+const naturals = () =>
+	Iter.from(
+		(function* () {
+			let i = 0;
+			while (true) yield i++;
+		})(),
+	);
+
+test("chunks groups elements and keeps a short last chunk", () => {
+	expect(Iter.from([1, 2, 3, 4, 5]).chunks(2).collect()).toEqual([
+		[1, 2],
+		[3, 4],
+		[5],
+	]);
+	expect(Iter.from([1, 2]).chunks(5).collect()).toEqual([[1, 2]]);
+	expect(Iter.from([]).chunks(2).collect()).toEqual([]);
+	expect(naturals().chunks(3).take(2).collect()).toEqual([
+		[0, 1, 2],
+		[3, 4, 5],
+	]);
+	expect(() => Iter.from([1]).chunks(0)).toThrow(RangeError);
+});
+
+test("windows yields overlapping windows", () => {
+	expect(Iter.from([1, 2, 3, 4]).windows(3).collect()).toEqual([
+		[1, 2, 3],
+		[2, 3, 4],
+	]);
+	expect(Iter.from([1, 2]).windows(3).collect()).toEqual([]);
+	expect(Iter.from([]).windows(1).collect()).toEqual([]);
+	expect(naturals().windows(2).take(2).collect()).toEqual([
+		[0, 1],
+		[1, 2],
+	]);
+	expect(() => Iter.from([1]).windows(-1)).toThrow(RangeError);
+});
+
+test("stepBy yields the first element and every n-th after it", () => {
+	expect(Iter.from([0, 1, 2, 3, 4, 5, 6]).stepBy(3).collect()).toEqual([
+		0, 3, 6,
+	]);
+	expect(Iter.from([1]).stepBy(2).collect()).toEqual([1]);
+	expect(Iter.from([]).stepBy(2).collect()).toEqual([]);
+	expect(naturals().stepBy(10).take(3).collect()).toEqual([0, 10, 20]);
+	expect(() => Iter.from([1]).stepBy(1.5)).toThrow(RangeError);
+});
+
+test("takeWhile stops at the first failing element", () => {
+	expect(
+		Iter.from([1, 2, 5, 1])
+			.takeWhile((x) => x < 3)
+			.collect(),
+	).toEqual([1, 2]);
+	expect(
+		Iter.from<number>([])
+			.takeWhile((x) => x < 3)
+			.collect(),
+	).toEqual([]);
+	expect(
+		naturals()
+			.takeWhile((x) => x < 4)
+			.collect(),
+	).toEqual([0, 1, 2, 3]);
+});
+
+test("skipWhile yields everything from the first failing element", () => {
+	expect(
+		Iter.from([1, 2, 5, 1])
+			.skipWhile((x) => x < 3)
+			.collect(),
+	).toEqual([5, 1]);
+	expect(
+		Iter.from([1, 2])
+			.skipWhile((x) => x < 3)
+			.collect(),
+	).toEqual([]);
+	expect(
+		naturals()
+			.skipWhile((x) => x < 100)
+			.take(1)
+			.collect(),
+	).toEqual([100]);
+});
+
+test("mapWhile maps until the first None", () => {
+	const parsed = Iter.from(["1", "2", "x", "4"]).mapWhile((s) =>
+		Option.fromPredicate(Number(s), (n) => !Number.isNaN(n)),
+	);
+	expectTypeOf(parsed).toEqualTypeOf<Iter<number>>();
+	expect(parsed.collect()).toEqual([1, 2]);
+	expect(
+		Iter.from<number>([])
+			.mapWhile((x) => Option.some(x))
+			.collect(),
+	).toEqual([]);
+	expect(
+		naturals()
+			.mapWhile((x) => (x < 2 ? Option.some(x * 2) : Option.none()))
+			.collect(),
+	).toEqual([0, 2]);
+});
+
+test("scan yields every intermediate accumulator", () => {
+	expect(
+		Iter.from([1, 2, 3])
+			.scan(0, (acc, x) => acc + x)
+			.collect(),
+	).toEqual([1, 3, 6]);
+	expect(
+		Iter.from<number>([])
+			.scan(0, (acc, x) => acc + x)
+			.collect(),
+	).toEqual([]);
+	expect(
+		naturals()
+			.scan("", (acc, x) => acc + x)
+			.take(3)
+			.collect(),
+	).toEqual(["0", "01", "012"]);
+});
+
+test("dedup removes consecutive duplicates only", () => {
+	expect(Iter.from([1, 1, 2, 2, 2, 1, 3, 3]).dedup().collect()).toEqual([
+		1, 2, 1, 3,
+	]);
+	expect(Iter.from([]).dedup().collect()).toEqual([]);
+	expect(Iter.from([undefined, undefined]).dedup().collect()).toEqual([
+		undefined,
+	]);
+});
+
+test("dedupBy compares with the previously yielded element", () => {
+	expect(
+		Iter.from(["a", "A", "b", "B", "a"])
+			.dedupBy((a, b) => a.toLowerCase() === b.toLowerCase())
+			.collect(),
+	).toEqual(["a", "b", "a"]);
+	expect(
+		Iter.from([1, 2, 3, 10, 11])
+			.dedupBy((previous, x) => x - previous < 5)
+			.collect(),
+	).toEqual([1, 10]);
+});
+
+test("intersperse places a separator between elements", () => {
+	const joined = Iter.from(["a", "b", "c"]).intersperse(0);
+	expectTypeOf(joined).toEqualTypeOf<Iter<string | number>>();
+	expect(joined.collect()).toEqual(["a", 0, "b", 0, "c"]);
+	expect(Iter.from(["a"]).intersperse(",").collect()).toEqual(["a"]);
+	expect(Iter.from([]).intersperse(",").collect()).toEqual([]);
+	expect(naturals().intersperse(-1).take(4).collect()).toEqual([0, -1, 1, -1]);
+});
+
+test("flattenDepth flattens up to the given depth", () => {
+	const nested = [1, [2, [3, [4]]], new Set([5])];
+	const once = Iter.from(nested).flattenDepth();
+	expect(once.collect()).toEqual([1, 2, [3, [4]], 5]);
+	expect(Iter.from(nested).flattenDepth(3).collect()).toEqual([1, 2, 3, 4, 5]);
+	expect(Iter.from(nested).flattenDepth(0).collect()).toEqual(nested);
+	expect(Iter.from([["ab", ["cd"]]]).flattenDepth(5).collect()).toEqual([
+		"ab",
+		"cd",
+	]);
+	expect(Iter.from([]).flattenDepth(2).collect()).toEqual([]);
+});
+
+test("flattenDepth infers the flattened element type", () => {
+	const deep: number[][][] = [[[1]]];
+	expectTypeOf(Iter.from(deep).flattenDepth()).toEqualTypeOf<
+		Iter<number[]>
+	>();
+	expectTypeOf(Iter.from(deep).flattenDepth(2)).toEqualTypeOf<Iter<number>>();
+	expectTypeOf(Iter.from([["a"]]).flattenDepth(2)).toEqualTypeOf<
+		Iter<string>
+	>();
+});
@@ -0,0 +1,161 @@
+import { test, expect } from "vitest";
+import { Iter } from "../iter";
+
+function tracked(log: string[], items = [1, 2, 3]) {
+	return (function* () {
+		try {
+			yield* items;
+		} finally {
+			log.push("closed");
+		}
+	})();
+}
+
+test("Iter is iterable", () => {
+	const iter = Iter.from([1, 2, 3]).map((x) => x * 2);
+	expect([...iter]).toEqual([2, 4, 6]);
+	expect(Array.from(Iter.from("ab"))).toEqual(["a", "b"]);
+	const seen: number[] = [];
+	for (const item of Iter.range(0, 3)) {
+		seen.push(item);
+	}
+	expect(seen).toEqual([0, 1, 2]);
+	expect(new Set(Iter.from([1, 1, 2]))).toEqual(new Set([1, 2]));
+});
+
+test("breaking out of for...of closes the source", () => {
+	const log: string[] = [];
+	for (const item of Iter.from(tracked(log)).filter((x) => x > 0)) {
+		if (item === 1) break;
+	}
+	expect(log).toEqual(["closed"]);
+});
+
+test("early-exit consumers close the source", () => {
+	const consumers: ((iter: Iter<number>) => unknown)[] = [
+		(iter) => iter.take(1).collect(),
+		(iter) => iter.find((x) => x === 1),
+		(iter) => iter.any((x) => x === 1),
+		(iter) => iter.all(() => false),
+		(iter) => iter.takeWhile((x) => x < 2).collect(),
+		(iter) => iter.position((x) => x === 1),
+		(iter) => Iter.from([1]).zip(iter).collect(),
+		(iter) => iter.zip(Iter.from([1])).collect(),
+		(iter) => iter.peekable().take(1).collect(),
+		(iter) => iter.cmp(Iter.from([0])),
+	];
+	for (const consume of consumers) {
+		const log: string[] = [];
+		consume(Iter.from(tracked(log)));
+		expect(log).toEqual(["closed"]);
+	}
+});
+
+test("take(0) closes a source that was already started", () => {
+	const log: string[] = [];
+	const iter = Iter.from(tracked(log));
+	expect(iter.next().value).toBe(1);
+	expect(
+		iter
+			.map((x) => x * 2)
+			.take(0)
+			.collect(),
+	).toEqual([]);
+	expect(log).toEqual(["closed"]);
+	expect(iter.next().done).toBe(true);
+});
+
+test("return closes the whole chain, even before it started", () => {
+	const log: string[] = [];
+	const first = tracked(log);
+	const second = tracked(log);
+	first.next();
+	second.next();
+	const pipeline = Iter.from(first)
+		.map((x) => x * 2)
+		.chain(Iter.from(second))
+		.filter(() => true);
+	expect(pipeline.return().done).toBe(true);
+	expect(log).toEqual(["closed", "closed"]);
+	expect(pipeline.next().done).toBe(true);
+});
+
+test("return closes a partially consumed chain", () => {
+	const log: string[] = [];
+	const pipeline = Iter.from(tracked(log)).map((x) => x + 1);
+	expect(pipeline.next().value).toBe(2);
+	pipeline.return();
+	expect(log).toEqual(["closed"]);
+});
+
+test("throw propagates cleanup when the error is not handled", () => {
+	const log: string[] = [];
+	const pipeline = Iter.from(tracked(log)).map((x) => x);
+	pipeline.next();
+	expect(() => pipeline.throw(new Error("stop"))).toThrow("stop");
+	expect(log).toEqual(["closed"]);
+
+	const unstarted: string[] = [];
+	expect(() =>
+		Iter.from(tracked(unstarted))
+			.map((x) => x)
+			.throw(new Error("stop")),
+	).toThrow("stop");
+	expect(unstarted).toEqual([]);
+});
+
+test("peekable and tee close their source", () => {
+	const log: string[] = [];
+	const peekable = Iter.from(tracked(log)).peekable();
+	peekable.peek();
+	peekable.return();
+	expect(log).toEqual(["closed"]);
+
+	const teeLog: string[] = [];
+	const [a, b] = Iter.from(tracked(teeLog)).tee();
+	a.next();
+	a.return();
+	expect(teeLog).toEqual([]);
+	b.take(1).collect();
+	expect(teeLog).toEqual(["closed"]);
+});
+
+test("Iter implements Disposable", () => {
+	const log: string[] = [];
+	{
+		using iter = Iter.from(tracked(log)).map((x) => x);
+		expect(iter.next().value).toBe(1);
+	}
+	expect(log).toEqual(["closed"]);
+});
+
+test("Iter.fromIterator wraps a bare iterator and closes it", () => {
+	let i = 0;
+	let returned = false;
+	const iterator: Iterator<number> = {
+		next: () =>
+			i < 5 ? { done: false, value: i++ } : { done: true, value: undefined },
+		return: () => {
+			returned = true;
+			return { done: true, value: undefined };
+		},
+	};
+	expect(Iter.fromIterator(iterator).take(2).collect()).toEqual([0, 1]);
+	expect(returned).toBe(true);
+
+	const values = new Map([["a", 1]]).values();
+	expect(Iter.fromIterator(values).collect()).toEqual([1]);
+});
+
+test("Iter.fromIterator does not call return on an exhausted iterator", () => {
+	let returned = false;
+	const iterator: Iterator<number> = {
+		next: () => ({ done: true, value: undefined }),
+		return: () => {
+			returned = true;
+			return { done: true, value: undefined };
+		},
+	};
+	expect(Iter.fromIterator(iterator).collect()).toEqual([]);
+	expect(returned).toBe(false);
+});
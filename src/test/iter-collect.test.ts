@@ -0,0 +1,106 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { From } from "../into";
+import { Iter } from "../iter";
+
+test("partition splits items by a predicate", () => {
+	const [even, odd] = Iter.from([1, 2, 3, 4, 5]).partition((x) => x % 2 === 0);
+	expect(even).toEqual([2, 4]);
+	expect(odd).toEqual([1, 3, 5]);
+	expect(Iter.from<number>([]).partition((x) => x > 0)).toEqual([[], []]);
+});
+
+test("partition narrows with a type guard", () => {
+	const [strings, numbers] = Iter.from<string | number>([1, "a", 2]).partition(
+		(x): x is string => typeof x === "string",
+	);
+	expectTypeOf(strings).toEqualTypeOf<string[]>();
+	expectTypeOf(numbers).toEqualTypeOf<number[]>();
+	expect(strings).toEqual(["a"]);
+	expect(numbers).toEqual([1, 2]);
+});
+
+test("groupBy groups items into a Map in order of first appearance", () => {
+	const groups = Iter.from([
+		"apple",
+		"avocado",
+		"banana",
+		"blueberry",
+		"cherry",
+	]).groupBy((s) => s[0]);
+	expectTypeOf(groups).toEqualTypeOf<Map<string, string[]>>();
+	expect([...groups]).toEqual([
+		["a", ["apple", "avocado"]],
+		["b", ["banana", "blueberry"]],
+		["c", ["cherry"]],
+	]);
+	expect(Iter.from([]).groupBy((x) => x).size).toBe(0);
+});
+
+test("countBy counts items per key", () => {
+	const counts = Iter.from([1, 2, 3, 4, 5]).countBy((x) =>
+		x % 2 === 0 ? "even" : "odd",
+	);
+	expect(counts).toEqual(
+		new Map([
+			["odd", 3],
+			["even", 2],
+		]),
+	);
+});
+
+test("unzip splits pairs into two arrays", () => {
+	const [numbers, letters] = Iter.from([1, 2])
+		.zip(Iter.from(["a", "b"]))
+		.unzip();
+	expectTypeOf(numbers).toEqualTypeOf<number[]>();
+	expectTypeOf(letters).toEqualTypeOf<string[]>();
+	expect(numbers).toEqual([1, 2]);
+	expect(letters).toEqual(["a", "b"]);
+	expect(Iter.from<[number, string]>([]).unzip()).toEqual([[], []]);
+});
+
+test("collectMap collects pairs, keeping the last value per key", () => {
+	const map = Iter.from(["a", "bb", "a"])
+		.enumerate()
+		.map(([i, s]) => [s, i] as [string, number])
+		.collectMap();
+	expectTypeOf(map).toEqualTypeOf<Map<string, number>>();
+	expect([...map]).toEqual([
+		["a", 2],
+		["bb", 1],
+	]);
+	expect(Iter.from<[string, number]>([]).collectMap().size).toBe(0);
+});
+
+test("collectSet collects unique items", () => {
+	expect(Iter.from([1, 2, 1]).collectSet()).toEqual(new Set([1, 2]));
+	expect(Iter.from([]).collectSet().size).toBe(0);
+});
+
+test("collectObject collects pairs into a plain object", () => {
+	const object = Iter.from(["a", "b", "a"])
+		.enumerate()
+		.map(([i, s]) => [s, i] as [string, number])
+		.collectObject();
+	expectTypeOf(object).toEqualTypeOf<Record<string, number>>();
+	expect(object).toEqual({ a: 2, b: 1 });
+	expect(Iter.from<[string, number]>([]).collectObject()).toEqual({});
+});
+
+test("join concatenates strings with a separator", () => {
+	expect(Iter.from(["a", "b", "c"]).join(", ")).toBe("a, b, c");
+	expect(Iter.from(["a"]).join(", ")).toBe("a");
+	expect(Iter.from<string>([]).join(", ")).toBe("");
+	expect(Iter.from([1, 2]).map(String).join("")).toBe("12");
+});
+
+test("collectInto builds a user-defined collection through From", () => {
+	class Bag<T> {
+		constructor(readonly items: T[]) {}
+	}
+	const bag = Iter.from([1, 2, 3])
+		.filter((x) => x > 1)
+		.collectInto(From.impl((items: Iterable<number>) => new Bag([...items])));
+	expectTypeOf(bag).toEqualTypeOf<Bag<number>>();
+	expect(bag.items).toEqual([2, 3]);
+});
@@ -0,0 +1,149 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test, expect, expectTypeOf, vi } from "vitest";
+import type { AsyncIter } from "../async-iter";
+import { Iter } from "../iter";
+import { WorkerError, WorkerPool } from "../parallel";
+import { Result } from "../result";
+
+const options = { workers: 2, chunkSize: 3 };
+
+test("parMap maps on workers and keeps input order", async () => {
+	const mapped = Iter.range(0, 10).parMap((x: number) => x * x, options);
+	expectTypeOf(mapped).toEqualTypeOf<AsyncIter<Result<number, WorkerError>>>();
+	const results = await mapped.collect();
+	expect(results.map((result) => result.unwrap())).toEqual([
+		0, 1, 4, 9, 16, 25, 36, 49, 64, 81,
+	]);
+});
+
+test("parMap accepts async worker functions", async () => {
+	const results = await Iter.from(["a", "b"])
+		.parMap(async (s: string) => s.toUpperCase(), options)
+		.collect();
+	expect(results.map((result) => result.unwrap())).toEqual(["A", "B"]);
+});
+
+test("parMap loads the default export of a module path or URL", async () => {
+	const dir = mkdtempSync(join(tmpdir(), "ferrocore-par-"));
+	try {
+		const path = join(dir, "increment.mjs");
+		writeFileSync(path, "export default (x) => x + 1;\n");
+		const fromPath = await Iter.from([1, 2, 3])
+			.parMap<number>(path, options)
+			.collect();
+		expect(fromPath.map((result) => result.unwrap())).toEqual([2, 3, 4]);
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+
+	const url = new URL("data:text/javascript,export default (x) => `${x}!`");
+	const fromUrl = await Iter.from([1, 2])
+		.parMap<string>(url, options)
+		.collect();
+	expect(fromUrl.map((result) => result.unwrap())).toEqual(["1!", "2!"]);
+});
+
+test("parFilter keeps the elements matching the predicate", async () => {
+	const results = await Iter.range(0, 20)
+		.parFilter((x: number) => x % 3 === 0, options)
+		.collect();
+	expect(results.map((result) => result.unwrap())).toEqual([
+		0, 3, 6, 9, 12, 15, 18,
+	]);
+});
+
+test("parFold folds chunks on workers and combines them in order", async () => {
+	const sum = await Iter.range(1, 101).parFold(
+		0,
+		(acc: number, x: number) => acc + x,
+		(a, b) => a + b,
+		options,
+	);
+	expect(sum.unwrap()).toBe(5050);
+	const joined = await Iter.from(["a", "b", "c", "d", "e", "f", "g"]).parFold(
+		"",
+		(acc: string, s: string) => acc + s,
+		(a, b) => a + b,
+		options,
+	);
+	expect(joined.unwrap()).toBe("abcdefg");
+});
+
+test("a throwing worker function ends the iterator with an Err", async () => {
+	const results = await Iter.range(0, 12)
+		.parMap((x: number) => {
+			if (x === 7) throw new Error("boom");
+			return x;
+		}, options)
+		.collect();
+	const last = results[results.length - 1];
+	expect(results.slice(0, -1).every((result) => result.isOk())).toBe(true);
+	expect(results.length).toBeLessThan(12);
+	expect(last.isErr()).toBe(true);
+	const error = last.unwrapErr();
+	expect(error).toBeInstanceOf(WorkerError);
+	expect(error._tag).toBe("WorkerError");
+	expect(error.message).toBe("worker task failed: boom");
+	expect(error.cause).toBeInstanceOf(Error);
+});
+
+test("parFold returns an Err when a worker fails", async () => {
+	const url = new URL("data:text/javascript,export default 42");
+	const result = await Iter.from([1, 2]).parFold(
+		0,
+		url,
+		(a, b) => a + b,
+		options,
+	);
+	expect(result.unwrapErr().message).toBe(
+		"worker task failed: the worker function is not a function",
+	);
+});
+
+test("values that cannot be sent to a worker become an Err", async () => {
+	const results = await Iter.from([() => 1])
+		.parMap((f: () => number) => f(), options)
+		.collect();
+	expect(results).toHaveLength(1);
+	expect(results[0].unwrapErr().message).toMatch(/could not send items/);
+});
+
+test("stopping early stops the workers", async () => {
+	const run = vi.spyOn(WorkerPool.prototype, "run");
+	const terminate = vi.spyOn(WorkerPool.prototype, "terminate");
+	try {
+		const first = await Iter.range(0, 1000)
+			.parMap((x: number) => x * 2, options)
+			.take(2)
+			.collect();
+		expect(first.map((result) => result.unwrap())).toEqual([0, 2]);
+		expect(terminate).toHaveBeenCalledTimes(1);
+		await terminate.mock.results[0].value;
+		// 1000 elements make 334 chunks; only the few already requested were sent.
+		expect(run.mock.calls.length).toBeLessThan(10);
+	} finally {
+		run.mockRestore();
+		terminate.mockRestore();
+	}
+});
+
+test("invalid options throw a RangeError", () => {
+	expect(() => Iter.from([1]).parMap((x: number) => x, { workers: 0 })).toThrow(
+		RangeError,
+	);
+	expect(() =>
+		Iter.from([1]).parFilter((x: number) => x > 0, { chunkSize: 1.5 }),
+	).toThrow(RangeError);
+	expect(() =>
+		Iter.from([1]).parFold(
+			0,
+			(acc: number) => acc,
+			(a, b) => a + b,
+			{
+				workers: -1,
+			},
+		),
+	).toThrow(RangeError);
+});
@@ -0,0 +1,157 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Iter, type Peekable } from "../iter";
+
+test("peek returns the next element without consuming it", () => {
+	const iter = Iter.from([1, 2]).peekable();
+	expectTypeOf(iter).toEqualTypeOf<Peekable<number>>();
+	expect(iter.peek().unwrap()).toBe(1);
+	expect(iter.peek().unwrap()).toBe(1);
+	expect(iter.next().value).toBe(1);
+	expect(iter.peek().unwrap()).toBe(2);
+	expect(iter.collect()).toEqual([2]);
+	expect(iter.peek().isNone()).toBe(true);
+});
+
+test("peek distinguishes an undefined element from exhaustion", () => {
+	const iter = Iter.from([undefined]).peekable();
+	expect(iter.peek().isSome()).toBe(true);
+	iter.next();
+	expect(iter.peek().isNone()).toBe(true);
+});
+
+test("nextIf only consumes matching elements", () => {
+	const iter = Iter.from([1, 2, 3, 10, 4]).peekable();
+	const small: number[] = [];
+	for (let next = iter.nextIf((x) => x < 5); next.isSome(); ) {
+		small.push(next.unwrap());
+		next = iter.nextIf((x) => x < 5);
+	}
+	expect(small).toEqual([1, 2, 3]);
+	expect(iter.nextIf((x) => x < 5).isNone()).toBe(true);
+	expect(iter.map((x) => x * 2).collect()).toEqual([20, 8]);
+});
+
+test("tee creates independent copies", () => {
+	let pulls = 0;
+	const [a, b, c] = Iter.from([1, 2, 3])
+		.inspect(() => pulls++)
+		.tee(3);
+	expect([a.next().value, a.next().value]).toEqual([1, 2]);
+	expect(b.collect()).toEqual([1, 2, 3]);
+	expect(a.collect()).toEqual([3]);
+	expect(c.map((x) => x * 10).collect()).toEqual([10, 20, 30]);
+	expect(pulls).toBe(3);
+});
+
+test("tee stops buffering for a copy once it is closed", async () => {
+	const refs: WeakRef<object>[] = [];
+	const [a, b] = Iter.range(0, 1000)
+		.map((i) => {
+			const item = { i };
+			refs.push(new WeakRef(item));
+			return item;
+		})
+		.tee();
+	expect(b.take(1).collect()).toEqual([{ i: 0 }]);
+	expect(a.count()).toBe(1000);
+	// WeakRefs are only cleared after the current job.
+	await new Promise((resolve) => setTimeout(resolve, 0));
+	(gc as NonNullable<typeof gc>)();
+	expect(refs.filter((ref) => ref.deref() !== undefined)).toEqual([]);
+	expect(b.next().done).toBe(true);
+});
+
+test("tee defaults to two copies", () => {
+	const copies = Iter.from(["a"]).tee();
+	expect(copies.length).toBe(2);
+	expect(copies.map((copy) => copy.collect())).toEqual([["a"], ["a"]]);
+});
+
+test("cycle repeats the elements endlessly", () => {
+	expect(Iter.from([1, 2, 3]).cycle().take(7).collect()).toEqual([
+		1, 2, 3, 1, 2, 3, 1,
+	]);
+	expect(Iter.from<number>([]).cycle().take(3).collect()).toEqual([]);
+});
+
+test("Iter.reusable restarts from its source on every consumption", () => {
+	let calls = 0;
+	const evens = Iter.reusable(() => {
+		calls++;
+		return [1, 2, 3, 4];
+	})
+		.filter((x) => x % 2 === 0)
+		.map((x) => x * 10);
+	expect(evens.collect()).toEqual([20, 40]);
+	expect(evens.collect()).toEqual([20, 40]);
+	expect(evens.sum()).toBe(60);
+	expect(evens.count()).toBe(2);
+	expect(calls).toBe(4);
+});
+
+test("Iter.reusable supports many independent pipelines", () => {
+	const numbers = Iter.reusable(() => [1, 2, 3]);
+	const doubled = numbers.map((x) => x * 2);
+	const zipped = numbers.zip(doubled);
+	expect(zipped.collect()).toEqual([
+		[1, 2],
+		[2, 4],
+		[3, 6],
+	]);
+	expect(zipped.collect()).toEqual(zipped.collect());
+	expect(numbers.chain(numbers).collect()).toEqual([1, 2, 3, 1, 2, 3]);
+	expect(numbers.nth(1)).toBe(2);
+	expect(numbers.nth(1)).toBe(2);
+	expect(numbers.find((x) => x > 1)).toBe(2);
+	expect(numbers.last()).toBe(3);
+});
+
+test("Iter.reusable next advances a shared cursor", () => {
+	const numbers = Iter.reusable(() => [1, 2]);
+	expect(numbers.next().value).toBe(1);
+	expect(numbers.next().value).toBe(2);
+	expect(numbers.next().done).toBe(true);
+	expect(numbers.collect()).toEqual([1, 2]);
+});
+
+test("nth returns undefined for a negative or fractional index without pulling", () => {
+	expect(Iter.repeat(1).nth(-1)).toBeUndefined();
+	expect(Iter.repeat(1).nth(1.5)).toBeUndefined();
+	expect(Iter.repeat(1).nthOption(Number.NaN).isNone()).toBe(true);
+	const iter = Iter.from([1, 2]);
+	expect(iter.nth(-1)).toBeUndefined();
+	expect(iter.next().value).toBe(1);
+});
+
+test("nth leaves the rest of a one-shot iterator in place", () => {
+	const iter = Iter.from([1, 2, 3, 4]);
+	const skipped: number[] = [];
+	expect(iter.inspect((x) => skipped.push(x)).nth(1)).toBe(2);
+	expect(skipped).toEqual([1, 2]);
+	expect(iter.next().value).toBe(3);
+
+	const direct = Iter.from([1, 2, 3, 4]);
+	expect(direct.nth(1)).toBe(2);
+	expect(direct.next().value).toBe(3);
+	expect(direct.nth(5)).toBeUndefined();
+
+	const peekable = Iter.from([1, 2, 3, 4]).peekable();
+	expect(peekable.peek().unwrap()).toBe(1);
+	expect(peekable.nth(1)).toBe(2);
+	expect(peekable.next().value).toBe(3);
+});
+
+test("zip closes the other iterator when this one ends", () => {
+	let closed = false;
+	const other = Iter.from(
+		(function* () {
+			try {
+				yield* ["a", "b", "c"];
+			} finally {
+				closed = true;
+			}
+		})(),
+	);
+	expect(Iter.from([1]).zip(other).collect()).toEqual([[1, "a"]]);
+	expect(closed).toBe(true);
+});
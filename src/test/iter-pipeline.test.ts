@@ -0,0 +1,119 @@
+import { test, expect } from "vitest";
+import { Iter } from "../iter";
+import { Option } from "../option";
+
+function* tracked<T>(items: T[], pulled: T[]): Generator<T> {
+	for (const item of items) {
+		pulled.push(item);
+		yield item;
+	}
+}
+
+test("fused stages run in order for each element", () => {
+	const calls: string[] = [];
+	const result = Iter.from([1, 2, 3])
+		.inspect((x) => calls.push(`a${x}`))
+		.filter((x) => x !== 2)
+		.inspect((x) => calls.push(`b${x}`))
+		.collect();
+	expect(result).toEqual([1, 3]);
+	expect(calls).toEqual(["a1", "b1", "a2", "a3", "b3"]);
+});
+
+test("take does not pull past the last taken element", () => {
+	const pulled: number[] = [];
+	expect(
+		Iter.from(tracked([1, 2, 3, 4], pulled))
+			.map((x) => x * 2)
+			.take(2)
+			.collect(),
+	).toEqual([2, 4]);
+	expect(pulled).toEqual([1, 2]);
+	Iter.from(tracked([1, 2], pulled))
+		.take(0)
+		.collect();
+	expect(pulled).toEqual([1, 2]);
+});
+
+test("takeWhile and mapWhile stop a fused pipeline", () => {
+	expect(
+		Iter.range(0, 100)
+			.map((x) => x * 3)
+			.takeWhile((x) => x < 10)
+			.collect(),
+	).toEqual([0, 3, 6, 9]);
+	expect(
+		Iter.range(0, 100)
+			.mapWhile((x) => (x < 3 ? Option.some(`${x}`) : Option.none()))
+			.collect(),
+	).toEqual(["0", "1", "2"]);
+});
+
+test("stateful stages start fresh on every run of a reusable source", () => {
+	const iter = Iter.range(0, 10).skip(2).stepBy(3).enumerate().take(2);
+	expect(iter.collect()).toEqual([
+		[0, 2],
+		[1, 5],
+	]);
+	expect([...iter]).toEqual([
+		[0, 2],
+		[1, 5],
+	]);
+	const sums = Iter.range(1, 4).scan(0, (acc, x) => acc + x);
+	expect(sums.collect()).toEqual([1, 3, 6]);
+	expect(sums.collect()).toEqual([1, 3, 6]);
+});
+
+test("adapting a partially consumed iterator continues where it left off", () => {
+	const iter = Iter.from([1, 2, 3, 4, 5]).enumerate();
+	expect(iter.next().value).toEqual([0, 1]);
+	expect(iter.map(([i, x]) => i * x).collect()).toEqual([2, 6, 12, 20]);
+});
+
+test("an iterator and its adapters advance the same stages", () => {
+	const x = Iter.from([1, 2, 3, 4, 5]).take(2);
+	const y = x.map((v) => v * 10);
+	expect(y.next().value).toBe(10);
+	expect(x.next().value).toBe(2);
+	expect(y.next().done).toBe(true);
+	expect(x.next().done).toBe(true);
+
+	const counted = Iter.from(["a", "b", "c"]).enumerate();
+	const labels = counted.map(([i, s]) => `${i}${s}`);
+	expect(counted.next().value).toEqual([0, "a"]);
+	expect(labels.collect()).toEqual(["1b", "2c"]);
+});
+
+const forceGc = gc as NonNullable<typeof gc>;
+
+/**
+ * Feeds five objects to `consume`, and reports whether an element was still reachable
+ * two elements after it was yielded.
+ */
+async function retainsPassedElements(
+	consume: (iter: Iter<object>) => unknown,
+): Promise<boolean> {
+	const items = Array.from({ length: 5 }, (_, i) => ({ i }));
+	const refs = items.map((item) => new WeakRef(item));
+	// A WeakRef keeps its target alive until the job that created it ends.
+	await new Promise((resolve) => setTimeout(resolve, 0));
+	let retained = false;
+	function* source(): Generator<object> {
+		for (let i = 0; i < refs.length; i++) {
+			if (i >= 2) {
+				forceGc();
+				retained ||= refs[i - 2].deref() !== undefined;
+			}
+			yield items.shift() as object;
+		}
+	}
+	consume(Iter.from(source()));
+	return retained;
+}
+
+test("count, last and nth do not hold on to the elements they pass", async () => {
+	expect(await retainsPassedElements((iter) => iter.collect())).toBe(true);
+	expect(await retainsPassedElements((iter) => iter.count())).toBe(false);
+	expect(await retainsPassedElements((iter) => iter.last())).toBe(false);
+	expect(await retainsPassedElements((iter) => iter.nth(4))).toBe(false);
+});
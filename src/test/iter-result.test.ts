@@ -0,0 +1,94 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Iter } from "../iter";
+import { Option } from "../option";
+import { Result } from "../result";
+
+test("finders distinguish an undefined element from a missing one", () => {
+	const values = [undefined, 1];
+	const found = Iter.from(values).findOption((x) => x === undefined);
+	expectTypeOf(found).toEqualTypeOf<Option<number | undefined>>();
+	expect(found.isSome()).toBe(true);
+	expect(Iter.from([1, undefined]).lastOption().isSome()).toBe(true);
+	expect(Iter.from([undefined]).nthOption(0).isSome()).toBe(true);
+});
+
+test("maxOption and minOption return the extreme element", () => {
+	expect(Iter.from(["b", "c", "a"]).maxOption().unwrap()).toBe("c");
+	expect(Iter.from(["b", "c", "a"]).minOption().unwrap()).toBe("a");
+	expect(Iter.from<string>([]).maxOption().isNone()).toBe(true);
+	expect(Iter.from<string>([]).minOption().isNone()).toBe(true);
+});
+
+test("positionOption returns the index of the first match", () => {
+	expect(Iter.from([1, 2, 3]).positionOption((x) => x > 1).unwrap()).toBe(1);
+	expect(Iter.from([1, 2, 3]).positionOption((x) => x > 3).isNone()).toBe(true);
+});
+
+test("the undefined-returning finders stay alongside the Option variants", () => {
+	expect(Iter.from([1, 2, 3]).find((x) => x > 1)).toBe(2);
+	expect(Iter.from([1, 2, 3]).last()).toBe(3);
+	expect(Iter.from([1, 2, 3]).nth(5)).toBeUndefined();
+	expect(Iter.from([1, 2, 3]).position((x) => x > 3)).toBeUndefined();
+	expect(Iter.from<number>([]).max()).toBeUndefined();
+	expect(Iter.from([2, 1]).min()).toBe(1);
+});
+
+test("filterMap accepts an Option-returning closure", () => {
+	const iter = Iter.from(["1", "x", "3"]).filterMap((s) =>
+		Option.fromPredicate(Number(s), (n) => !Number.isNaN(n)),
+	);
+	expectTypeOf(iter).toEqualTypeOf<Iter<number>>();
+	expect(iter.collect()).toEqual([1, 3]);
+});
+
+test("tryFold folds until the first Err", () => {
+	const checkedSum = (acc: number, x: number): Result<number, string> =>
+		x < 0 ? Result.err(`negative: ${x}`) : Result.ok(acc + x);
+	expect(Iter.from([1, 2, 3]).tryFold(0, checkedSum).unwrap()).toBe(6);
+
+	const seen: number[] = [];
+	const result = Iter.from([1, -2, 3])
+		.inspect((x) => seen.push(x))
+		.tryFold(0, checkedSum);
+	expect(result.unwrapErr()).toBe("negative: -2");
+	expect(seen).toEqual([1, -2]);
+});
+
+test("tryForEach stops at the first Err", () => {
+	const seen: number[] = [];
+	const result = Iter.from([1, 2, 3, 4]).tryForEach(
+		(x): Result<void, string> => {
+			seen.push(x);
+			return x === 2 ? Result.err("stop") : Result.ok(undefined);
+		},
+	);
+	expectTypeOf(result).toEqualTypeOf<Result<void, string>>();
+	expect(result.unwrapErr()).toBe("stop");
+	expect(seen).toEqual([1, 2]);
+	expect(Iter.from([1]).tryForEach(() => Result.ok(1)).isOk()).toBe(true);
+});
+
+test("collectResult collects Ok values or returns the first Err", () => {
+	const ok = Iter.from([Result.ok<number, string>(1), Result.ok<number, string>(2)]);
+	const collected = ok.collectResult();
+	expectTypeOf(collected).toEqualTypeOf<Result<number[], string>>();
+	expect(collected.unwrap()).toEqual([1, 2]);
+
+	const mixed = Iter.from([
+		Result.ok<number, string>(1),
+		Result.err<number, string>("first"),
+		Result.err<number, string>("second"),
+	]);
+	expect(mixed.collectResult().unwrapErr()).toBe("first");
+	expect(Iter.from<Result<number, string>>([]).collectResult().unwrap()).toEqual(
+		[],
+	);
+});
+
+test("flatten keeps the values of Somes and Oks", () => {
+	const options = [Option.some(1), Option.none(), Option.some(3)];
+	expect(Iter.from(options).flatten().collect()).toEqual([1, 3]);
+	expect(Iter.from([[Option.some(1)], [Option.none()]]).flattenDepth(2).collect()).toEqual([1]);
+	const results = [Result.ok<number, string>(1), Result.err<number, string>("no")];
+	expect(Iter.from(results).flatten().collect()).toEqual([1]);
+});
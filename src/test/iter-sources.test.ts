@@ -0,0 +1,114 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Iter } from "../iter";
+import { Option } from "../option";
+
+test("Iter.range excludes the end", () => {
+	expect(Iter.range(0, 5).collect()).toEqual([0, 1, 2, 3, 4]);
+	expect(Iter.range(0, 10, 3).collect()).toEqual([0, 3, 6, 9]);
+	expect(Iter.range(5, 0, -2).collect()).toEqual([5, 3, 1]);
+	expect(Iter.range(3, 3).collect()).toEqual([]);
+	expect(Iter.range(5, 0).collect()).toEqual([]);
+});
+
+test("Iter.rangeInclusive includes the end", () => {
+	expect(Iter.rangeInclusive(1, 3).collect()).toEqual([1, 2, 3]);
+	expect(Iter.rangeInclusive(0, 10, 5).collect()).toEqual([0, 5, 10]);
+	expect(Iter.rangeInclusive(0, 9, 5).collect()).toEqual([0, 5]);
+	expect(Iter.rangeInclusive(3, 1, -1).collect()).toEqual([3, 2, 1]);
+	expect(Iter.rangeInclusive(3, 3).collect()).toEqual([3]);
+});
+
+test("Iter.range does not accumulate rounding errors with fractional steps", () => {
+	const tenths = Iter.range(0, 1, 0.1).collect();
+	expect(tenths).toEqual([0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9]);
+	expect(Iter.range(1, 0, -0.25).collect()).toEqual([1, 0.75, 0.5, 0.25]);
+	const thirds = Iter.range(0, 1, 1 / 3).collect();
+	expect(thirds).toHaveLength(3);
+	expect(thirds[2]).toBeCloseTo(2 / 3, 15);
+	expect(Iter.range(0, 100, 0.01).count()).toBe(10_000);
+	expect(Iter.range(0, 2.1, 0.7).count()).toBe(3);
+});
+
+test("Iter.rangeInclusive yields an end reached by fractional steps", () => {
+	expect(Iter.rangeInclusive(0, 0.3, 0.1).collect()).toEqual([0, 0.1, 0.2, 0.3]);
+	expect(Iter.rangeInclusive(0, 2.1, 0.7).last()).toBe(2.1);
+	expect(Iter.rangeInclusive(1, 0, -0.1).count()).toBe(11);
+	const partial = Iter.rangeInclusive(0, 1, 0.3).collect();
+	expect(partial).toHaveLength(4);
+	expect(partial[3]).toBeCloseTo(0.9, 15);
+});
+
+test("Iter.range supports bigint", () => {
+	const range = Iter.range(0n, 3n);
+	expectTypeOf(range).toEqualTypeOf<Iter<bigint>>();
+	expect(range.collect()).toEqual([0n, 1n, 2n]);
+	expect(Iter.rangeInclusive(10n, 0n, -5n).collect()).toEqual([10n, 5n, 0n]);
+	// @ts-expect-error mixed number and bigint
+	Iter.range(0, 3n);
+});
+
+test("Iter.range rejects a zero step", () => {
+	expect(() => Iter.range(0, 3, 0)).toThrow(RangeError);
+	expect(() => Iter.rangeInclusive(0n, 3n, 0n)).toThrow(RangeError);
+});
+
+test("Iter.range can be consumed many times", () => {
+	const evens = Iter.range(0, 10).filter((x) => x % 2 === 0);
+	expect(evens.sum()).toBe(20);
+	expect(evens.count()).toBe(5);
+});
+
+test("Iter.repeat and Iter.repeatWith are infinite", () => {
+	expect(Iter.repeat("a").take(3).collect()).toEqual(["a", "a", "a"]);
+	let i = 0;
+	expect(
+		Iter.repeatWith(() => i++)
+			.take(3)
+			.collect(),
+	).toEqual([0, 1, 2]);
+});
+
+test("Iter.once and Iter.empty", () => {
+	expect(Iter.once(1).collect()).toEqual([1]);
+	expect(Iter.once(undefined).count()).toBe(1);
+	const empty = Iter.empty<number>();
+	expectTypeOf(empty).toEqualTypeOf<Iter<number>>();
+	expect(empty.collect()).toEqual([]);
+	expect(Iter.once(1).chain(Iter.empty()).collect()).toEqual([1]);
+});
+
+test("Iter.fromFn calls the function until it returns None", () => {
+	const queue = [1, 2, 3];
+	const drained = Iter.fromFn(() => Option.fromNullable(queue.shift()));
+	expect(drained.collect()).toEqual([1, 2, 3]);
+	expect(queue).toEqual([]);
+	expect(Iter.fromFn(() => Option.none()).collect()).toEqual([]);
+});
+
+test("Iter.successors computes each element from the previous one", () => {
+	const powers = Iter.successors(Option.some(1), (x) =>
+		Option.fromPredicate(x * 10, (y) => y < 1000),
+	);
+	expect(powers.collect()).toEqual([1, 10, 100]);
+	expect(powers.collect()).toEqual([1, 10, 100]);
+	expect(
+		Iter.successors<number>(Option.none(), (x) => Option.some(x)).collect(),
+	).toEqual([]);
+	expect(
+		Iter.successors(Option.some(1), (x) => Option.some(x * 2))
+			.take(4)
+			.collect(),
+	).toEqual([1, 2, 4, 8]);
+});
+
+test("Iter.unfold threads state through the function", () => {
+	const fibonacci = Iter.unfold<number, [number, number]>([0, 1], ([a, b]) =>
+		Option.some([a, [b, a + b]]),
+	);
+	expect(fibonacci.take(7).collect()).toEqual([0, 1, 1, 2, 3, 5, 8]);
+	const countdown = Iter.unfold(3, (n) =>
+		n > 0 ? Option.some<[string, number]>([`${n}`, n - 1]) : Option.none(),
+	);
+	expect(countdown.collect()).toEqual(["3", "2", "1"]);
+	expect(countdown.collect()).toEqual(["3", "2", "1"]);
+});
@@ -0,0 +1,123 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Iter } from "../iter";
+import { Option } from "../option";
+
+function* tracked<T>(items: T[], log: string[], name: string): Generator<T> {
+	try {
+		yield* items;
+	} finally {
+		log.push(`${name} closed`);
+	}
+}
+
+/**
+ * Shows a tuple of Options as plain values, with `None` for missing ones.
+ */
+const show = (options: Option<unknown>[]) =>
+	options.map((option) => (option.isSome() ? option.unwrap() : "None"));
+
+test("zipAll infers a tuple type and stops at the shortest iterable", () => {
+	const zipped = Iter.zipAll([1, 2, 3], new Set(["a", "b"]), Iter.repeat(true));
+	expectTypeOf(zipped).toEqualTypeOf<Iter<[number, string, boolean]>>();
+	expect(zipped.collect()).toEqual([
+		[1, "a", true],
+		[2, "b", true],
+	]);
+	expect(Iter.zipAll().collect()).toEqual([]);
+	expect(Iter.zipAll([1], []).collect()).toEqual([]);
+});
+
+test("zipAll is reusable over re-iterable inputs and closes every input", () => {
+	const zipped = Iter.zipAll([1, 2], ["a", "b"]);
+	expect(zipped.collect()).toEqual(zipped.collect());
+
+	const log: string[] = [];
+	Iter.zipAll(
+		tracked([1, 2, 3], log, "left"),
+		tracked([1], log, "right"),
+	).collect();
+	expect(log).toEqual(["right closed", "left closed"]);
+});
+
+test("zipLongest pads exhausted iterables with None", () => {
+	const zipped = Iter.zipLongest([1, 2, 3], ["a"], [true, false]);
+	expectTypeOf(zipped).toEqualTypeOf<
+		Iter<[Option<number>, Option<string>, Option<boolean>]>
+	>();
+	expect(zipped.map(show).collect()).toEqual([
+		[1, "a", true],
+		[2, "None", false],
+		[3, "None", "None"],
+	]);
+	expect(Iter.zipLongest([], []).collect()).toEqual([]);
+});
+
+test("the zipLongest method keeps the tail of the longer side", () => {
+	const zipped = Iter.from([1]).zipLongest(Iter.from(["a", "b"]));
+	expectTypeOf(zipped).toEqualTypeOf<Iter<[Option<number>, Option<string>]>>();
+	expect(zipped.map(show).collect()).toEqual([
+		[1, "a"],
+		["None", "b"],
+	]);
+	expect(Iter.range(0, 3).zipLongest(Iter.empty<string>()).count()).toBe(3);
+});
+
+test("interleave alternates and then finishes the longer side", () => {
+	expect(
+		Iter.from([1, 2, 3, 4])
+			.interleave(Iter.from([10, 20]))
+			.collect(),
+	).toEqual([1, 10, 2, 20, 3, 4]);
+	expect(
+		Iter.from([1])
+			.interleave(Iter.from([10, 20, 30]))
+			.collect(),
+	).toEqual([1, 10, 20, 30]);
+	expect(Iter.empty<number>().interleave(Iter.once(1)).collect()).toEqual([1]);
+});
+
+test("roundRobin takes from each iterable in turn, skipping exhausted ones", () => {
+	const mixed = Iter.roundRobin([1, 2, 3], ["a"], [4, 5]);
+	expectTypeOf(mixed).toEqualTypeOf<Iter<number | string>>();
+	expect(mixed.collect()).toEqual([1, "a", 4, 2, 5, 3]);
+	expect(Iter.roundRobin().collect()).toEqual([]);
+	expect(Iter.roundRobin(Iter.repeat(0), [1, 2]).take(5).collect()).toEqual([
+		0, 1, 0, 2, 0,
+	]);
+});
+
+test("cartesianProduct yields every combination, the last iterable varying fastest", () => {
+	const product = Iter.cartesianProduct([1, 2], ["a", "b", "c"], [true]);
+	expectTypeOf(product).toEqualTypeOf<Iter<[number, string, boolean]>>();
+	expect(product.collect()).toEqual([
+		[1, "a", true],
+		[1, "b", true],
+		[1, "c", true],
+		[2, "a", true],
+		[2, "b", true],
+		[2, "c", true],
+	]);
+	expect(Iter.cartesianProduct([1, 2], []).collect()).toEqual([]);
+	expect(Iter.cartesianProduct([1, 2]).collect()).toEqual([[1], [2]]);
+	expect(Iter.cartesianProduct().collect()).toEqual([[]]);
+});
+
+test("cartesianProduct streams an infinite first iterable", () => {
+	expect(
+		Iter.cartesianProduct(Iter.range(0, Number.POSITIVE_INFINITY), ["x", "y"])
+			.take(3)
+			.collect(),
+	).toEqual([
+		[0, "x"],
+		[0, "y"],
+		[1, "x"],
+	]);
+	const pairs = Iter.from(["a", "b"]).cartesianProduct(Iter.range(0, 2));
+	expectTypeOf(pairs).toEqualTypeOf<Iter<[string, number]>>();
+	expect(pairs.collect()).toEqual([
+		["a", 0],
+		["a", 1],
+		["b", 0],
+		["b", 1],
+	]);
+});
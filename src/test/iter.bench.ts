@@ -0,0 +1,92 @@
+import { bench, describe } from "vitest";
+import { Iter } from "../iter";
+
+const N = 100_000;
+const data = Array.from({ length: N }, (_, i) => i);
+
+/**
+ * The native iterator helpers (`Iterator.prototype.map`, ...) are not available on every runtime.
+ */
+type NativeHelpers = {
+	map<U>(fn: (item: number) => U): NativeHelpers;
+	filter(fn: (item: number) => boolean): NativeHelpers;
+	take(n: number): NativeHelpers;
+	drop(n: number): NativeHelpers;
+	reduce<U>(fn: (acc: U, item: number) => U, initial: U): U;
+};
+const Native = (
+	globalThis as {
+		Iterator?: { from(iterable: Iterable<number>): NativeHelpers };
+	}
+).Iterator;
+
+/**
+ * Every case adds its result here, so that the engine cannot optimise the work away.
+ */
+export let sink = 0;
+
+const hasHelpers = typeof Native?.from([]).map === "function";
+
+describe("6-stage pipeline", () => {
+	bench("plain loop", () => {
+		let sum = 0;
+		let skipped = 0;
+		let taken = 0;
+		for (const x of data) {
+			const doubled = x * 2;
+			if (doubled % 3 === 0) continue;
+			if (skipped++ < 10) continue;
+			const y = doubled + 1;
+			if (y % 5 === 0) continue;
+			if (taken++ >= N / 2) break;
+			sum += y;
+		}
+		sink += sum;
+	});
+
+	bench("Iter", () => {
+		sink += Iter.from(data)
+			.map((x) => x * 2)
+			.filter((x) => x % 3 !== 0)
+			.skip(10)
+			.map((x) => x + 1)
+			.filter((x) => x % 5 !== 0)
+			.take(N / 2)
+			.fold(0, (acc, x) => acc + x);
+	});
+
+	bench.skipIf(!hasHelpers)("native iterator helpers", () => {
+		sink += (Native as NonNullable<typeof Native>)
+			.from(data)
+			.map((x) => x * 2)
+			.filter((x) => x % 3 !== 0)
+			.drop(10)
+			.map((x) => x + 1)
+			.filter((x) => x % 5 !== 0)
+			.take(N / 2)
+			.reduce((acc, x) => acc + x, 0);
+	});
+});
+
+describe("count", () => {
+	bench("plain loop", () => {
+		let count = 0;
+		for (const x of data) {
+			if (x % 2 === 0) count++;
+		}
+		sink += count;
+	});
+
+	bench("Iter", () => {
+		sink += Iter.from(data)
+			.filter((x) => x % 2 === 0)
+			.count();
+	});
+
+	bench.skipIf(!hasHelpers)("native iterator helpers", () => {
+		sink += (Native as NonNullable<typeof Native>)
+			.from(data)
+			.filter((x) => x % 2 === 0)
+			.reduce((count) => count + 1, 0);
+	});
+});
@@ -0,0 +1,126 @@
+import { test, expect } from "vitest";
+import { ContextError, TaggedError } from "../error";
+import { DecodeError, fromWire, reviver, toWire } from "../json";
+import { None, Option, Some } from "../option";
+import { Err, Ok, Result } from "../result";
+
+test("toJSON uses the documented wire format", () => {
+	expect(JSON.stringify(Option.some(1))).toBe('{"$some":1}');
+	expect(JSON.stringify(Option.none())).toBe('{"$none":true}');
+	expect(JSON.stringify(Result.ok(1))).toBe('{"$ok":1}');
+	expect(JSON.stringify(Result.err("Error"))).toBe('{"$err":"Error"}');
+});
+
+test("toJSON serializes nested values", () => {
+	const value = Result.ok({ user: Option.some({ name: "Alice" }) });
+	expect(JSON.stringify(value)).toBe('{"$ok":{"user":{"$some":{"name":"Alice"}}}}');
+});
+
+test("Option.fromJSON decodes strings and parsed values", () => {
+	const fromString = Option.fromJSON<number>('{"$some":1}');
+	const fromObject = Option.fromJSON({ $none: true });
+	expect(fromString.unwrap()).toBeInstanceOf(Some);
+	expect(fromString.unwrap().unwrap()).toBe(1);
+	expect(fromObject.unwrap()).toBeInstanceOf(None);
+});
+
+test("Result.fromJSON decodes strings and parsed values", () => {
+	const ok = Result.fromJSON<number, string>('{"$ok":1}');
+	const err = Result.fromJSON<number, string>({ $err: "Error" });
+	expect(ok.unwrap()).toBeInstanceOf(Ok);
+	expect(ok.unwrap().unwrap()).toBe(1);
+	expect(err.unwrap()).toBeInstanceOf(Err);
+	expect(err.unwrap().unwrapErr()).toBe("Error");
+});
+
+test("fromJSON returns Err on invalid JSON", () => {
+	const result = Option.fromJSON("{not json");
+	expect(result.unwrapErr()).toBeInstanceOf(DecodeError);
+	expect(result.unwrapErr().input).toBe("{not json");
+});
+
+test("fromJSON returns Err on malformed wire format", () => {
+	expect(Option.fromJSON({ $some: 1, extra: true }).isErr()).toBe(true);
+	expect(Option.fromJSON({ $none: false }).isErr()).toBe(true);
+	expect(Option.fromJSON({ $ok: 1 }).isErr()).toBe(true);
+	expect(Result.fromJSON({ $some: 1 }).isErr()).toBe(true);
+	expect(Result.fromJSON(42).isErr()).toBe(true);
+	expect(Result.fromJSON(null).unwrapErr()._tag).toBe("DecodeError");
+});
+
+test("reviver rebuilds nested instances", () => {
+	const json = JSON.stringify([
+		Result.ok(Option.some(1)),
+		{ missing: Option.none() },
+	]);
+	const [result, record] = JSON.parse(json, reviver);
+	expect(result).toBeInstanceOf(Ok);
+	expect(result.unwrap()).toBeInstanceOf(Some);
+	expect(result.unwrap().unwrap()).toBe(1);
+	expect(record.missing).toBeInstanceOf(None);
+});
+
+test("reviver leaves other objects untouched", () => {
+	const value = JSON.parse('{"$ok":1,"other":2}', reviver);
+	expect(value).toEqual({ $ok: 1, other: 2 });
+});
+
+test("toWire and fromWire round-trip through structuredClone", () => {
+	const value = {
+		results: [Result.ok(Option.some(1)), Result.err<number, string>("Error")],
+		missing: Option.none(),
+	};
+	const cloned = fromWire(structuredClone(toWire(value))) as typeof value;
+	expect(cloned.results[0]).toBeInstanceOf(Ok);
+	expect((cloned.results[0].unwrap() as Option<number>).unwrap()).toBe(1);
+	expect(cloned.results[1].unwrapErr()).toBe("Error");
+	expect(cloned.missing).toBeInstanceOf(None);
+});
+
+test("toWire leaves class instances other than Option, Result and Error untouched", () => {
+	const date = new Date(0);
+	expect(toWire({ date })).toEqual({ date });
+});
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+
+test("an Err holding an Error keeps its name and message", () => {
+	const json = JSON.stringify(Result.err(new Error("boom")));
+	expect(json).toBe('{"$err":{"$error":{"name":"Error","message":"boom"}}}');
+	const error = Result.fromJSON(json).unwrap().unwrapErr();
+	expect(error).toBeInstanceOf(Error);
+	expect((error as Error).name).toBe("Error");
+	expect((error as Error).message).toBe("boom");
+});
+
+test("an Err holding a ContextError round-trips with its cause chain", () => {
+	const original = new ContextError("loading config", new NotFound({ id: "42" }));
+	const decoded = Result.fromJSON(JSON.stringify(Result.err(original)))
+		.unwrap()
+		.unwrapErr();
+	expect(decoded).toBeInstanceOf(ContextError);
+	const error = decoded as ContextError<NotFound>;
+	expect(error.message).toBe("loading config");
+	expect(error.cause).toBeInstanceOf(Error);
+	expect(error.cause.name).toBe("NotFound");
+	expect(error.cause.message).toBe("NotFound");
+	expect(error.cause._tag).toBe("NotFound");
+	expect(error.cause.id).toBe("42");
+});
+
+test("a decoded tagged error can still be caught by its tag", () => {
+	const json = JSON.stringify(Result.err(new NotFound({ id: "1" })));
+	const result = Result.fromJSON<number, NotFound>(json).unwrap();
+	expect(result.catchTag("NotFound", () => Result.ok(0)).unwrap()).toBe(0);
+});
+
+test("toWire and fromWire keep errors and their native cause", () => {
+	// A native cause is a non-enumerable own property.
+	const outer = new Error("outer");
+	Object.defineProperty(outer, "cause", { value: new Error("inner") });
+	const value = Result.err<number, Error & { cause?: unknown }>(outer);
+	const cloned = fromWire(structuredClone(toWire(value))) as typeof value;
+	const error = cloned.unwrapErr();
+	expect(error.message).toBe("outer");
+	expect((error.cause as Error).message).toBe("inner");
+});
@@ -0,0 +1,135 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { TaggedError } from "../error";
+import { match, P } from "../match";
+import { Option } from "../option";
+import { Result } from "../result";
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+class Timeout extends TaggedError("Timeout")<{ ms: number }> {}
+
+test("match on Option with Some and None", () => {
+	const describe = (option: Option<number>) =>
+		match(option)
+			.with(P.Some(P.number), (n) => `some ${n}`)
+			.with(P.None, () => "none")
+			.exhaustive();
+	expect(describe(Option.some(1))).toBe("some 1");
+	expect(describe(Option.none())).toBe("none");
+});
+
+test("match handler receives the narrowed value", () => {
+	match(Option.some<string | number>(1))
+		.with(P.Some(P.string), (s) => expectTypeOf(s).toEqualTypeOf<string>())
+		.with(P.Some(P.number), (n) => expectTypeOf(n).toEqualTypeOf<number>())
+		.with(P.None, (v) => expectTypeOf(v).toEqualTypeOf<undefined>())
+		.exhaustive();
+});
+
+test("match on Result with tagged errors", () => {
+	const describe = (result: Result<number, NotFound | Timeout>) =>
+		match(result)
+			.with(P.Ok(), (n) => `ok ${n}`)
+			.with(P.Err({ _tag: "NotFound" }), (e) => `missing ${e.id}`)
+			.with(P.Err({ _tag: "Timeout" }), (e) => `timeout ${e.ms}`)
+			.exhaustive();
+	expect(describe(Result.ok(1))).toBe("ok 1");
+	expect(describe(Result.err(new NotFound({ id: "a" })))).toBe("missing a");
+	expect(describe(Result.err(new Timeout({ ms: 5 })))).toBe("timeout 5");
+});
+
+test("match on nested values", () => {
+	const describe = (result: Result<Option<number>, string>) =>
+		match(result)
+			.with(P.Ok(P.Some(0)), () => "zero")
+			.with(P.Ok(P.Some(P.number)), (n) => `some ${n}`)
+			.with(P.Ok(P.None), () => "none")
+			.with(P.Err(P.string), (e) => `error ${e}`)
+			.exhaustive();
+	expect(describe(Result.ok(Option.some(0)))).toBe("zero");
+	expect(describe(Result.ok(Option.some(2)))).toBe("some 2");
+	expect(describe(Result.ok(Option.none()))).toBe("none");
+	expect(describe(Result.err("bad"))).toBe("error bad");
+});
+
+test("match on literal unions", () => {
+	const describe = (value: "a" | "b" | boolean) =>
+		match(value)
+			.with("a", () => 1)
+			.with("b", () => 2)
+			.with(true, () => 3)
+			.with(false, () => 4)
+			.exhaustive();
+	expect([describe("a"), describe("b"), describe(true), describe(false)]).toEqual(
+		[1, 2, 3, 4],
+	);
+});
+
+test("when adds guarded cases that do not count towards exhaustiveness", () => {
+	const describe = (option: Option<number>) =>
+		match(option)
+			.when(
+				(o) => o.isSomeAnd((n) => n > 10),
+				() => "big",
+			)
+			.with(P.Some(P.when((n: number) => n < 0)), (n) => `negative ${n}`)
+			.with(P.Some(), (n) => `small ${n}`)
+			.with(P.None, () => "none")
+			.exhaustive();
+	expect(describe(Option.some(20))).toBe("big");
+	expect(describe(Option.some(-1))).toBe("negative -1");
+	expect(describe(Option.some(1))).toBe("small 1");
+	expect(describe(Option.none())).toBe("none");
+});
+
+test("otherwise handles unmatched values", () => {
+	const result = match(Option.some(5))
+		.with(P.Some(1), () => "one")
+		.otherwise(() => "other");
+	expect(result).toBe("other");
+});
+
+test("the first matching case wins", () => {
+	const result = match(Result.ok<number, string>(1))
+		.with(P.Ok(P._), () => "first")
+		.with(P.Ok(1), () => "second")
+		.with(P.Err(), () => "error")
+		.exhaustive();
+	expect(result).toBe("first");
+});
+
+test("exhaustive fails type-checking when a case is missing", () => {
+	const incomplete = () =>
+		match(Option.some(1) as Option<number>)
+			.with(P.Some(P.number), () => "some")
+			// @ts-expect-error None is not handled
+			.exhaustive();
+	expect(() => incomplete()).not.toThrow();
+
+	const nested = () =>
+		match(Result.ok(Option.none()) as Result<Option<number>, string>)
+			.with(P.Ok(P.Some()), () => "some")
+			.with(P.Err(), () => "error")
+			// @ts-expect-error Ok(None) is not handled
+			.exhaustive();
+	expect(() => nested()).toThrow("Pattern matching was not exhaustive");
+
+	const guarded = () =>
+		match(Option.some(1) as Option<number>)
+			.with(P.Some(P.when((n: number) => n > 0)), () => "positive")
+			.with(P.None, () => "none")
+			// @ts-expect-error guards do not count towards exhaustiveness
+			.exhaustive();
+	expect(guarded()).toBe("positive");
+});
+
+test("P.when with a type guard narrows the handler's value", () => {
+	const isString = (value: unknown): value is string =>
+		typeof value === "string";
+	const result = match(Option.some<unknown>("a"))
+		.with(P.Some(P.when(isString)), (s) => {
+			expectTypeOf(s).toEqualTypeOf<string>();
+			return s.toUpperCase();
+		})
+		.otherwise(() => "other");
+	expect(result).toBe("A");
+});
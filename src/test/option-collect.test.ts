@@ -0,0 +1,56 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Option } from "../option";
+
+const host = Option.some("localhost");
+const port = Option.some(8080);
+const missing: Option<boolean> = Option.none();
+
+test("Option.all returns Some with tuple of values", () => {
+	const result = Option.all([host, port]);
+	expectTypeOf(result).toEqualTypeOf<Option<[string, number]>>();
+	expect(result.unwrap()).toEqual(["localhost", 8080]);
+});
+
+test("Option.all returns None if any input is None", () => {
+	expect(Option.all([host, missing, port]).isNone()).toBe(true);
+});
+
+test("Option.all on an empty array returns Some of empty array", () => {
+	expect(Option.all([]).unwrap()).toEqual([]);
+});
+
+test("Option.all with a record returns Some with record of values", () => {
+	const result = Option.all({ host, port });
+	expectTypeOf(result).toEqualTypeOf<Option<{ host: string; port: number }>>();
+	expect(result.unwrap()).toEqual({ host: "localhost", port: 8080 });
+});
+
+test("Option.all with a record returns None if any input is None", () => {
+	expect(Option.all({ host, missing }).isNone()).toBe(true);
+});
+
+test("Option.any returns the first Some", () => {
+	const result = Option.any([missing, port, host]);
+	expectTypeOf(result).toEqualTypeOf<Option<boolean | number | string>>();
+	expect(result.unwrap()).toBe(8080);
+});
+
+test("Option.any returns None if every input is None", () => {
+	expect(Option.any([missing, Option.none()]).isNone()).toBe(true);
+	expect(Option.any([]).isNone()).toBe(true);
+});
+
+test("Option.values drops the Nones", () => {
+	const values = Option.values([
+		Option.some(1),
+		Option.none(),
+		Option.some(3),
+	]);
+	expect(values).toEqual([1, 3]);
+});
+
+test("Option.values accepts any iterable", () => {
+	const options = new Set([Option.some("a"), Option.none(), Option.some("b")]);
+	expect(Option.values(options)).toEqual(["a", "b"]);
+	expect(Option.values([])).toEqual([]);
+});
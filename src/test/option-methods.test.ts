@@ -0,0 +1,176 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Option, OptionCell } from "../option";
+
+const some = Option.some(5);
+const none: Option<number> = Option.none();
+
+test("Option.fromPredicate returns Some if predicate is true", () => {
+	expect(Option.fromPredicate(5, (x) => x > 0).unwrap()).toBe(5);
+	expect(Option.fromPredicate(5, (x) => x < 0).isNone()).toBe(true);
+});
+
+test("Option.fromPredicate narrows with a type guard", () => {
+	const value: string | number = "a";
+	const result = Option.fromPredicate(
+		value as string | number,
+		(x): x is string => typeof x === "string",
+	);
+	expectTypeOf(result).toEqualTypeOf<Option<string>>();
+	expect(result.unwrap()).toBe(value);
+});
+
+test("unwrapOrElse returns value or computes fallback", () => {
+	expect(some.unwrapOrElse(() => 10)).toBe(5);
+	expect(none.unwrapOrElse(() => 10)).toBe(10);
+});
+
+test("expect returns value or throws the given message", () => {
+	expect(some.expect("should be Some")).toBe(5);
+	expect(() => none.expect("should be Some")).toThrow("should be Some");
+});
+
+test("filter keeps Some matching the predicate", () => {
+	expect(some.filter((x) => x > 0).unwrap()).toBe(5);
+	expect(some.filter((x) => x < 0).isNone()).toBe(true);
+	expect(none.filter(() => true).isNone()).toBe(true);
+});
+
+test("and returns the second option only for Some", () => {
+	expect(some.and(Option.some("b")).unwrap()).toBe("b");
+	expect(some.and(Option.none()).isNone()).toBe(true);
+	expect(none.and(Option.some("b")).isNone()).toBe(true);
+});
+
+test("or returns the first Some", () => {
+	expect(some.or(Option.some(10)).unwrap()).toBe(5);
+	expect(none.or(Option.some(10)).unwrap()).toBe(10);
+	expect(none.or(Option.none()).isNone()).toBe(true);
+});
+
+test("xor returns Some only if exactly one is Some", () => {
+	expect(some.xor(Option.none()).unwrap()).toBe(5);
+	expect(none.xor(Option.some(10)).unwrap()).toBe(10);
+	expect(some.xor(Option.some(10)).isNone()).toBe(true);
+	expect(none.xor(Option.none()).isNone()).toBe(true);
+});
+
+test("zip pairs two Somes", () => {
+	expect(some.zip(Option.some("a")).unwrap()).toEqual([5, "a"]);
+	expect(some.zip(Option.none()).isNone()).toBe(true);
+	expect(none.zip(Option.some("a")).isNone()).toBe(true);
+});
+
+test("zipWith combines two Somes", () => {
+	expect(some.zipWith(Option.some(2), (a, b) => a * b).unwrap()).toBe(10);
+	expect(none.zipWith(Option.some(2), (a, b) => a * b).isNone()).toBe(true);
+});
+
+test("unzip splits a Some tuple", () => {
+	const [a, b] = Option.some<[number, string]>([1, "a"]).unzip();
+	expect(a.unwrap()).toBe(1);
+	expect(b.unwrap()).toBe("a");
+	const [c, d] = (Option.none() as Option<[number, string]>).unzip();
+	expect(c.isNone()).toBe(true);
+	expect(d.isNone()).toBe(true);
+});
+
+test("okOr converts to Result", () => {
+	expect(some.okOr("missing").unwrap()).toBe(5);
+	expect(none.okOr("missing").unwrapErr()).toBe("missing");
+});
+
+test("okOrElse only computes the error for None", () => {
+	let calls = 0;
+	const error = () => {
+		calls++;
+		return "missing";
+	};
+	expect(some.okOrElse(error).unwrap()).toBe(5);
+	expect(calls).toBe(0);
+	expect(none.okOrElse(error).unwrapErr()).toBe("missing");
+	expect(calls).toBe(1);
+});
+
+test("inspect calls the function only for Some", () => {
+	const seen: number[] = [];
+	expect(some.inspect((x) => seen.push(x))).toBe(some);
+	expect(none.inspect((x) => seen.push(x))).toBe(none);
+	expect(seen).toEqual([5]);
+});
+
+test("isSomeAnd checks the value against a predicate", () => {
+	expect(some.isSomeAnd((x) => x > 0)).toBe(true);
+	expect(some.isSomeAnd((x) => x < 0)).toBe(false);
+	expect(none.isSomeAnd(() => true)).toBe(false);
+});
+
+test("isSomeAnd returns a plain boolean", () => {
+	const option: Option<number> = some;
+	expectTypeOf(option.isSomeAnd(() => true)).toEqualTypeOf<boolean>();
+	if (option.isSomeAnd((x) => x > 0)) {
+		expectTypeOf(option).toEqualTypeOf<Option<number>>();
+	} else {
+		// A failed predicate says nothing about the variant, so the option must not narrow to None.
+		expectTypeOf(option).toEqualTypeOf<Option<number>>();
+	}
+});
+
+test("isNoneOr is true for None or a matching value", () => {
+	expect(none.isNoneOr(() => false)).toBe(true);
+	expect(some.isNoneOr((x) => x > 0)).toBe(true);
+	expect(some.isNoneOr((x) => x < 0)).toBe(false);
+});
+
+test("mapOr and mapOrElse apply the function or use the default", () => {
+	expect(some.mapOr(0, (x) => x * 2)).toBe(10);
+	expect(none.mapOr(0, (x) => x * 2)).toBe(0);
+	expect(some.mapOrElse(() => 0, (x) => x * 2)).toBe(10);
+	expect(none.mapOrElse(() => 1, (x) => x * 2)).toBe(1);
+});
+
+test("flatten removes one level of nesting", () => {
+	expect(Option.some(some).flatten().unwrap()).toBe(5);
+	expect(Option.some(none).flatten().isNone()).toBe(true);
+	expect((Option.none() as Option<Option<number>>).flatten().isNone()).toBe(
+		true,
+	);
+});
+
+test("OptionCell take leaves None behind", () => {
+	const cell = new OptionCell(Option.some(5));
+	expect(cell.take().unwrap()).toBe(5);
+	expect(cell.isNone()).toBe(true);
+	expect(cell.take().isNone()).toBe(true);
+});
+
+test("OptionCell replace returns the previous option", () => {
+	const cell = new OptionCell<number>();
+	expect(cell.replace(1).isNone()).toBe(true);
+	expect(cell.replace(2).unwrap()).toBe(1);
+	expect(cell.get().unwrap()).toBe(2);
+});
+
+test("OptionCell insert overwrites the value", () => {
+	const cell = new OptionCell(Option.some(1));
+	expect(cell.insert(2)).toBe(2);
+	expect(cell.get().unwrap()).toBe(2);
+});
+
+test("an Option yields its value once, or nothing", () => {
+	expect([...some]).toEqual([5]);
+	expect([...none]).toEqual([]);
+	expect(Array.from(Option.some(undefined))).toEqual([undefined]);
+});
+
+test("OptionCell getOrInsertWith only computes for None", () => {
+	let calls = 0;
+	const cell = new OptionCell<number>();
+	const compute = () => {
+		calls++;
+		return 7;
+	};
+	expect(cell.getOrInsertWith(compute)).toBe(7);
+	expect(cell.getOrInsertWith(compute)).toBe(7);
+	expect(calls).toBe(1);
+	expect(cell.isSome()).toBe(true);
+});
@@ -0,0 +1,92 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Option, type PathOf } from "../option";
+
+type Response = {
+	data?: {
+		user: {
+			name: string;
+			address: { zip: string } | null;
+			tags: { label: string }[];
+		} | null;
+	};
+};
+
+const full: Response = {
+	data: {
+		user: {
+			name: "Alice",
+			address: { zip: "12345" },
+			tags: [{ label: "admin" }],
+		},
+	},
+};
+
+test("Option.path reads a nested property", () => {
+	const zip = Option.path(full, "data.user.address.zip");
+	expectTypeOf(zip).toEqualTypeOf<Option<string>>();
+	expect(zip.unwrap()).toBe("12345");
+});
+
+test("Option.path returns None on any missing segment", () => {
+	const noData: Response = {};
+	const noAddress: Response = {
+		data: { user: { name: "Bob", address: null, tags: [] } },
+	};
+	expect(Option.path(noData, "data.user.address.zip").isNone()).toBe(true);
+	expect(Option.path(noAddress, "data.user.address.zip").isNone()).toBe(true);
+	expect(Option.path(null as Response | null, "data").isNone()).toBe(true);
+});
+
+test("Option.path reads array elements by index", () => {
+	const label = Option.path(full, "data.user.tags.0.label");
+	expectTypeOf(label).toEqualTypeOf<Option<string>>();
+	expect(label.unwrap()).toBe("admin");
+	expect(Option.path(full, "data.user.tags.1.label").isNone()).toBe(true);
+});
+
+test("Option.path only accepts known paths", () => {
+	expectTypeOf<"data.user.name">().toMatchTypeOf<PathOf<Response>>();
+	// @ts-expect-error unknown property
+	Option.path(full, "data.user.email");
+});
+
+test("Option.at reads elements with positive and negative indices", () => {
+	const values = [1, 2, 3];
+	expect(Option.at(values, 0).unwrap()).toBe(1);
+	expect(Option.at(values, -1).unwrap()).toBe(3);
+	expect(Option.at(values, 3).isNone()).toBe(true);
+	expect(Option.at(values, -4).isNone()).toBe(true);
+	expect(Option.at([], 0).isNone()).toBe(true);
+	expect(Option.at("abc", 1).unwrap()).toBe("b");
+});
+
+test("Option.get reads Map entries", () => {
+	const map = new Map([
+		["a", 1],
+		["b", 2],
+	]);
+	const value = Option.get(map, "a");
+	expectTypeOf(value).toEqualTypeOf<Option<number>>();
+	expect(value.unwrap()).toBe(1);
+	expect(Option.get(map, "c").isNone()).toBe(true);
+});
+
+test("Option.get reads record entries", () => {
+	const record: Record<string, number> = { a: 1 };
+	const value = Option.get(record, "a");
+	expectTypeOf(value).toEqualTypeOf<Option<number>>();
+	expect(value.unwrap()).toBe(1);
+	expect(Option.get(record, "b").isNone()).toBe(true);
+	expect(Option.get(record, "toString").isNone()).toBe(true);
+});
+
+test("Option.path, Option.at and Option.get agree on missing values", () => {
+	const sparse = [, 1];
+	expect(Option.at(sparse, 0).isNone()).toBe(true);
+	expect(Option.at([null, 1], 0).isNone()).toBe(true);
+	expect(Option.at(sparse, 1).unwrap()).toBe(1);
+	expect(Option.get(new Map([["a", undefined]]), "a").isNone()).toBe(true);
+	expect(Option.get({ a: null } as { a: number | null }, "a").isNone()).toBe(true);
+	expect(Option.path({ a: undefined } as { a?: number }, "a").isNone()).toBe(true);
+	expectTypeOf(Option.at([1, undefined], 0)).toEqualTypeOf<Option<number>>();
+});
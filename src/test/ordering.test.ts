@@ -0,0 +1,148 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Iter } from "../iter";
+import { comparing, naturalOrder, Ordering, reverse } from "../ordering";
+
+type Person = { name: string; age: number };
+
+const people: Person[] = [
+	{ name: "Carol", age: 30 },
+	{ name: "alice", age: 25 },
+	{ name: "Bob", age: 30 },
+	{ name: "Dave", age: 25 },
+];
+
+test("Ordering constants and conversion", () => {
+	expectTypeOf(Ordering.Less).toEqualTypeOf<-1>();
+	expect([Ordering.Less, Ordering.Equal, Ordering.Greater]).toEqual([-1, 0, 1]);
+	expect(Ordering.from(-42)).toBe(Ordering.Less);
+	expect(Ordering.from(0)).toBe(Ordering.Equal);
+	expect(Ordering.from(0.5)).toBe(Ordering.Greater);
+});
+
+test("naturalOrder compares numbers, strings and dates", () => {
+	expect(naturalOrder(1, 2)).toBe(Ordering.Less);
+	expect(naturalOrder("b", "a")).toBe(Ordering.Greater);
+	expect(naturalOrder(new Date(1), new Date(1))).toBe(Ordering.Equal);
+	expect(naturalOrder(new Date(2), new Date(1))).toBe(Ordering.Greater);
+	expect([10, 9, 1].sort(naturalOrder)).toEqual([1, 9, 10]);
+});
+
+test("comparing chains tie-breakers and reverses", () => {
+	const byAgeThenName = comparing((p: Person) => p.age).thenComparing((p) =>
+		p.name.toLowerCase(),
+	);
+	expect([...people].sort(byAgeThenName).map((p) => p.name)).toEqual([
+		"alice",
+		"Dave",
+		"Bob",
+		"Carol",
+	]);
+	expect([...people].sort(byAgeThenName.reverse()).map((p) => p.name)).toEqual([
+		"Carol",
+		"Bob",
+		"Dave",
+		"alice",
+	]);
+	const byAgeDescThenName = comparing(
+		(p: Person) => p.age,
+		reverse(naturalOrder),
+	).thenComparing((p) => p.name);
+	expect([...people].sort(byAgeDescThenName).map((p) => p.name)).toEqual([
+		"Bob",
+		"Carol",
+		"Dave",
+		"alice",
+	]);
+	expect(reverse((a: number, b: number) => a - b)(1, 5)).toBe(Ordering.Greater);
+});
+
+test("maxBy returns the last maximum and minBy the first minimum", () => {
+	const byAge = comparing((p: Person) => p.age);
+	expect(Iter.from(people).maxBy(byAge).unwrap().name).toBe("Bob");
+	expect(Iter.from(people).minBy(byAge).unwrap().name).toBe("alice");
+	expect(Iter.from<Person>([]).maxBy(byAge).isNone()).toBe(true);
+});
+
+test("maxByKey and minByKey compare by key", () => {
+	expect(
+		Iter.from(people)
+			.maxByKey((p) => p.name.length)
+			.unwrap().name,
+	).toBe("alice");
+	expect(
+		Iter.from(people)
+			.minByKey((p) => p.name.length)
+			.unwrap().name,
+	).toBe("Bob");
+	const dates = [
+		new Date(2020, 0, 1),
+		new Date(2021, 0, 1),
+		new Date(2019, 0, 1),
+	];
+	expect(
+		Iter.from(dates)
+			.maxByKey((d) => d)
+			.unwrap(),
+	).toBe(dates[1]);
+	expect(
+		Iter.from<Date>([])
+			.minByKey((d) => d)
+			.isNone(),
+	).toBe(true);
+});
+
+test("maxBy does not treat undefined elements as missing", () => {
+	const values = [1, undefined, 2];
+	const undefinedFirst = (a: number | undefined, b: number | undefined) =>
+		(a ?? Number.NEGATIVE_INFINITY) - (b ?? Number.NEGATIVE_INFINITY);
+	expect(Iter.from(values).minBy(undefinedFirst).isSome()).toBe(true);
+	expect(Iter.from(values).minBy(undefinedFirst).unwrap()).toBeUndefined();
+});
+
+test("sorted sorts in natural order by default, not as strings", () => {
+	expect(Iter.from([10, 9, 1]).sorted().collect()).toEqual([1, 9, 10]);
+	expect(Iter.from([1, 3, 2]).sorted(reverse(naturalOrder)).collect()).toEqual([
+		3, 2, 1,
+	]);
+	expect(Iter.from([]).sorted().collect()).toEqual([]);
+});
+
+test("sortedBy is stable", () => {
+	expect(
+		Iter.from(people)
+			.sortedBy((p) => p.age)
+			.map((p) => p.name)
+			.collect(),
+	).toEqual(["alice", "Dave", "Carol", "Bob"]);
+});
+
+test("isSorted checks adjacent elements", () => {
+	expect(Iter.from([1, 2, 2, 3]).isSorted()).toBe(true);
+	expect(Iter.from([1, 3, 2]).isSorted()).toBe(false);
+	expect(Iter.from([]).isSorted()).toBe(true);
+	expect(Iter.from([3, 2, 1]).isSorted(reverse(naturalOrder))).toBe(true);
+});
+
+test("cmp compares lexicographically", () => {
+	expect(Iter.from([1, 2]).cmp(Iter.from([1, 3]))).toBe(Ordering.Less);
+	expect(Iter.from([1, 2]).cmp(Iter.from([1, 2]))).toBe(Ordering.Equal);
+	expect(Iter.from([1, 2, 0]).cmp(Iter.from([1, 2]))).toBe(Ordering.Greater);
+	expect(Iter.from([1]).cmp(Iter.from([1, 0]))).toBe(Ordering.Less);
+	expect(Iter.from<number>([]).cmp(Iter.from([]))).toBe(Ordering.Equal);
+	expect(
+		Iter.from(["B"]).cmp(
+			Iter.from(["a"]),
+			comparing((s) => s.toLowerCase()),
+		),
+	).toBe(Ordering.Greater);
+});
+
+test("eq compares element-wise and by length", () => {
+	expect(Iter.from([1, 2]).eq(Iter.from([1, 2]))).toBe(true);
+	expect(Iter.from([1, 2]).eq(Iter.from([1]))).toBe(false);
+	expect(Iter.from([1, 2]).eq(Iter.from([1, 3]))).toBe(false);
+	expect(
+		Iter.from([{ id: 1 }]).eq(Iter.from([{ id: 1 }]), (a, b) => a.id === b.id),
+	).toBe(true);
+	expect(Iter.range(0, 3).eq(Iter.from([0, 1, 2]))).toBe(true);
+});
@@ -0,0 +1,84 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Result } from "../result";
+
+const num = Result.ok<number, "NotANumber">(1);
+const str = Result.ok<string, "Empty">("a");
+const bad = Result.err<boolean, "Timeout">("Timeout");
+
+test("Result.all returns Ok with tuple of values", () => {
+	const result = Result.all([num, str]);
+	expectTypeOf(result).toEqualTypeOf<
+		Result<[number, string], "NotANumber" | "Empty">
+	>();
+	expect(result.unwrap()).toEqual([1, "a"]);
+});
+
+test("Result.all returns the first Err", () => {
+	const result = Result.all([
+		num,
+		bad,
+		Result.err<number, "Other">("Other"),
+	]);
+	expect(result.unwrapErr()).toBe("Timeout");
+});
+
+test("Result.all on an empty array returns Ok of empty array", () => {
+	expect(Result.all([]).unwrap()).toEqual([]);
+});
+
+test("Result.all with a record returns Ok with record of values", () => {
+	const result = Result.all({ a: num, b: str });
+	expectTypeOf(result).toEqualTypeOf<
+		Result<{ a: number; b: string }, "NotANumber" | "Empty">
+	>();
+	expect(result.unwrap()).toEqual({ a: 1, b: "a" });
+});
+
+test("Result.all with a record returns the first Err", () => {
+	expect(Result.all({ a: num, b: bad }).unwrapErr()).toBe("Timeout");
+});
+
+test("Result.any returns the first Ok", () => {
+	const result = Result.any([bad, num, str]);
+	expectTypeOf(result).toEqualTypeOf<
+		Result<number | string | boolean, ["Timeout", "NotANumber", "Empty"]>
+	>();
+	expect(result.unwrap()).toBe(1);
+});
+
+test("Result.any returns all errors if every input is Err", () => {
+	const result = Result.any([bad, Result.err<number, string>("Other")]);
+	expect(result.unwrapErr()).toEqual(["Timeout", "Other"]);
+});
+
+test("Result.any on an empty array returns Err of empty array", () => {
+	expect(Result.any([]).unwrapErr()).toEqual([]);
+});
+
+test("Result.combine returns Ok with tuple of values", () => {
+	const result = Result.combine([num, str]);
+	expectTypeOf(result).toEqualTypeOf<
+		Result<[number, string], ("NotANumber" | "Empty")[]>
+	>();
+	expect(result.unwrap()).toEqual([1, "a"]);
+});
+
+test("Result.combine returns every error", () => {
+	const result = Result.combine([
+		bad,
+		num,
+		Result.err<number, "Other">("Other"),
+	]);
+	expect(result.unwrapErr()).toEqual(["Timeout", "Other"]);
+});
+
+test("Result.combine with a record returns every error", () => {
+	const ok = Result.combine({ a: num, b: str });
+	const err = Result.combine({
+		a: bad,
+		b: num,
+		c: Result.err<string, "Empty">("Empty"),
+	});
+	expect(ok.unwrap()).toEqual({ a: 1, b: "a" });
+	expect(err.unwrapErr()).toEqual(["Timeout", "Empty"]);
+});
@@ -0,0 +1,136 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { Result } from "../result";
+
+const ok = Result.ok<number, string>(5);
+const err = Result.err<number, string>("Error");
+
+test("unwrapOrElse returns value or computes it from the error", () => {
+	expect(ok.unwrapOrElse((e) => e.length)).toBe(5);
+	expect(err.unwrapOrElse((e) => e.length)).toBe(5);
+	expect(Result.err<number, string>("Oops").unwrapOrElse((e) => e.length)).toBe(
+		4,
+	);
+});
+
+test("expect returns Ok value or throws the given message", () => {
+	expect(ok.expect("should be Ok")).toBe(5);
+	expect(() => err.expect("should be Ok")).toThrow("should be Ok");
+});
+
+test("expectErr returns Err value or throws the given message", () => {
+	expect(err.expectErr("should be Err")).toBe("Error");
+	expect(() => ok.expectErr("should be Err")).toThrow("should be Err");
+});
+
+test("and returns the second result for Ok", () => {
+	expect(ok.and(Result.ok("next")).unwrap()).toBe("next");
+	expect(ok.and(Result.err("next")).unwrapErr()).toBe("next");
+});
+
+test("and returns the Err for Err", () => {
+	expect(err.and(Result.ok("next")).unwrapErr()).toBe("Error");
+});
+
+test("andThen chains Ok values and propagates Err", () => {
+	expect(ok.andThen((x) => Result.ok(x * 2)).unwrap()).toBe(10);
+	expect(err.andThen((x) => Result.ok(x * 2)).unwrapErr()).toBe("Error");
+});
+
+test("or returns the Ok value for Ok", () => {
+	expect(ok.or(Result.ok(10)).unwrap()).toBe(5);
+});
+
+test("or returns the second result for Err", () => {
+	expect(err.or(Result.ok(10)).unwrap()).toBe(10);
+	expect(err.or(Result.err(404)).unwrapErr()).toBe(404);
+});
+
+test("orElse recovers from Err and leaves Ok untouched", () => {
+	let called = false;
+	const fromOk = ok.orElse(() => {
+		called = true;
+		return Result.ok(0);
+	});
+	expect(fromOk.unwrap()).toBe(5);
+	expect(called).toBe(false);
+	expect(err.orElse((e) => Result.ok(e.length)).unwrap()).toBe(5);
+	expect(err.orElse((e) => Result.err(e.length)).unwrapErr()).toBe(5);
+});
+
+test("inspect calls the function only for Ok", () => {
+	const seen: number[] = [];
+	expect(ok.inspect((x) => seen.push(x))).toBe(ok);
+	expect(err.inspect((x) => seen.push(x))).toBe(err);
+	expect(seen).toEqual([5]);
+});
+
+test("inspectErr calls the function only for Err", () => {
+	const seen: string[] = [];
+	expect(ok.inspectErr((e) => seen.push(e))).toBe(ok);
+	expect(err.inspectErr((e) => seen.push(e))).toBe(err);
+	expect(seen).toEqual(["Error"]);
+});
+
+test("isOkAnd checks Ok value against a predicate", () => {
+	expect(ok.isOkAnd((x) => x > 0)).toBe(true);
+	expect(ok.isOkAnd((x) => x < 0)).toBe(false);
+	expect(err.isOkAnd(() => true)).toBe(false);
+});
+
+test("isOkAnd and isErrAnd return a plain boolean", () => {
+	const result: Result<number, string> = ok;
+	expectTypeOf(result.isOkAnd(() => true)).toEqualTypeOf<boolean>();
+	expectTypeOf(result.isErrAnd(() => true)).toEqualTypeOf<boolean>();
+	if (result.isOkAnd((x) => x > 0)) {
+		expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+	} else {
+		// A failed predicate says nothing about the variant, so the result must not narrow to Err.
+		expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+	}
+});
+
+test("isErrAnd checks Err value against a predicate", () => {
+	expect(err.isErrAnd((e) => e === "Error")).toBe(true);
+	expect(err.isErrAnd((e) => e === "Other")).toBe(false);
+	expect(ok.isErrAnd(() => true)).toBe(false);
+});
+
+test("ok converts to Option of the value", () => {
+	expect(ok.ok().unwrap()).toBe(5);
+	expect(err.ok().isNone()).toBe(true);
+});
+
+test("err converts to Option of the error", () => {
+	expect(err.err().unwrap()).toBe("Error");
+	expect(ok.err().isNone()).toBe(true);
+});
+
+test("flatten removes one level of nesting", () => {
+	const nestedOk = Result.ok<Result<number, string>, string>(ok);
+	const nestedInnerErr = Result.ok<Result<number, string>, string>(err);
+	const nestedErr = Result.err<Result<number, string>, string>("Outer");
+	expect(nestedOk.flatten().unwrap()).toBe(5);
+	expect(nestedInnerErr.flatten().unwrapErr()).toBe("Error");
+	expect(nestedErr.flatten().unwrapErr()).toBe("Outer");
+});
+
+test("iter yields the Ok value or nothing", () => {
+	expect(ok.iter().collect()).toEqual([5]);
+	expect(err.iter().collect()).toEqual([]);
+});
+
+test("a Result iterates like iter", () => {
+	expect([...ok]).toEqual([5]);
+	expect([...err]).toEqual([]);
+	expect(Array.from(Result.ok(1))).toEqual([1]);
+});
+
+test("mapOr applies the function or returns the default", () => {
+	expect(ok.mapOr(0, (x) => x * 2)).toBe(10);
+	expect(err.mapOr(0, (x) => x * 2)).toBe(0);
+});
+
+test("mapOrElse applies the function or computes the default", () => {
+	expect(ok.mapOrElse((e) => e.length, (x) => x * 2)).toBe(10);
+	expect(err.mapOrElse((e) => e.length, (x) => x * 2)).toBe(5);
+});
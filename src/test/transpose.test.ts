@@ -0,0 +1,75 @@
+import { test, expect, expectTypeOf } from "vitest";
+import { AsyncResult } from "../async-result";
+import { type InferSome, Option } from "../option";
+import { type InferErr, type InferOk, Result, type ResultOf } from "../result";
+
+test("Option.transpose of None is Ok(None)", () => {
+	const option: Option<Result<number, string>> = Option.none();
+	const result = option.transpose();
+	expectTypeOf(result).toEqualTypeOf<Result<Option<number>, string>>();
+	expect(result.unwrap().isNone()).toBe(true);
+});
+
+test("Option.transpose of Some(Ok) is Ok(Some)", () => {
+	const result = Option.some(Result.ok<number, string>(5)).transpose();
+	expect(result.unwrap().unwrap()).toBe(5);
+});
+
+test("Option.transpose of Some(Err) is Err", () => {
+	const result = Option.some(Result.err<number, string>("Error")).transpose();
+	expect(result.unwrapErr()).toBe("Error");
+});
+
+test("Result.transpose of Ok(None) is None", () => {
+	const result = Result.ok<Option<number>, string>(Option.none());
+	const option = result.transpose();
+	expectTypeOf(option).toEqualTypeOf<Option<Result<number, string>>>();
+	expect(option.isNone()).toBe(true);
+});
+
+test("Result.transpose of Ok(Some) is Some(Ok)", () => {
+	const option = Result.ok<Option<number>, string>(
+		Option.some(5),
+	).transpose();
+	expect(option.unwrap().unwrap()).toBe(5);
+});
+
+test("Result.transpose of Err is Some(Err)", () => {
+	const option = Result.err<Option<number>, string>("Error").transpose();
+	expect(option.unwrap().unwrapErr()).toBe("Error");
+});
+
+test("transpose round-trips", () => {
+	const option = Option.some(Result.ok<number, string>(5));
+	expect(option.transpose().transpose().unwrap().unwrap()).toBe(5);
+});
+
+test("Result.fromOption converts Some to Ok and None to Err", () => {
+	expect(Result.fromOption(Option.some(5), "missing").unwrap()).toBe(5);
+	expect(Result.fromOption(Option.none(), "missing").unwrapErr()).toBe(
+		"missing",
+	);
+});
+
+test("type helpers infer value and error types", () => {
+	const parse = (input: string): Result<number, "ParseError"> =>
+		Result.ok(input.length);
+	const load = async (id: number) =>
+		Result.ok<string, "NotFound">(String(id));
+	const fetch = (id: number) => AsyncResult.ok<boolean, "Timeout">(id > 0);
+
+	expectTypeOf<InferOk<ReturnType<typeof parse>>>().toEqualTypeOf<number>();
+	expectTypeOf<
+		InferErr<ReturnType<typeof parse>>
+	>().toEqualTypeOf<"ParseError">();
+	expectTypeOf<InferSome<Option<string>>>().toEqualTypeOf<string>();
+	expectTypeOf<ResultOf<typeof parse>>().toEqualTypeOf<
+		Result<number, "ParseError">
+	>();
+	expectTypeOf<ResultOf<typeof load>>().toEqualTypeOf<
+		Result<string, "NotFound">
+	>();
+	expectTypeOf<ResultOf<typeof fetch>>().toEqualTypeOf<
+		Result<boolean, "Timeout">
+	>();
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	test: {
+		pool: "forks",
+		poolOptions: {
+			// The memory tests call `gc()` to check what the garbage collector can reclaim.
+			forks: { execArgv: ["--expose-gc"] },
+		},
+	},
+});